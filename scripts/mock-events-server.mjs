@@ -0,0 +1,237 @@
+#!/usr/bin/env node
+// Stand-in for the backend's live-update stream, for trying out and testing multi-user updates
+// without a backend that implements it.
+//
+//   node scripts/mock-events-server.mjs [--port 8003] [--upstream http://localhost:8002]
+//
+// GET    /api/projects/:id/events                streams the project's events (server-sent events)
+// POST   /api/projects/:id/events                publishes one: {"type": "task.updated", "data": {...task}}
+// GET    /api/projects/:id/presence              lists who has the project open
+// PUT    /api/projects/:id/presence              heartbeat: {"sessionId": "...", "editingTaskId": null}
+// DELETE /api/projects/:id/presence/:sessionId   leaves the project
+//
+// Every other request is forwarded to the upstream API, so the app can point VITE_API_URL here.
+import http from 'node:http';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? fallback : args[index + 1];
+};
+
+const PORT = Number(option('port', process.env.MOCK_EVENTS_PORT ?? '8003'));
+const UPSTREAM = new URL(option('upstream', process.env.MOCK_EVENTS_UPSTREAM ?? 'http://localhost:8002'));
+const HEARTBEAT_MS = 15000;
+const HISTORY_LIMIT = 500;
+const PRESENCE_TTL_MS = 60000;
+
+const EVENTS_PATH = /^\/api\/projects\/([^/]+)\/events$/;
+const PRESENCE_PATH = /^\/api\/projects\/([^/]+)\/presence(?:\/([^/]+))?$/;
+
+/** @type {Map<string, Set<http.ServerResponse>>} */
+const subscribers = new Map();
+/** @type {Array<{ id: number, projectId: string, type: string, data: unknown }>} */
+const history = [];
+let lastId = 0;
+/** @type {Map<string, Map<string, { sessionId: string, username: string, editingTaskId: string | null, seenAt: number }>>} */
+const presence = new Map();
+
+const corsHeaders = (req) => ({
+  'Access-Control-Allow-Origin': req.headers.origin ?? '*',
+  'Access-Control-Allow-Credentials': 'true',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, Last-Event-ID',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+});
+
+function writeEvent(res, { id, type, data }) {
+  res.write(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function subscribe(req, res, projectId) {
+  res.writeHead(200, {
+    ...corsHeaders(req),
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 1000\n\n');
+
+  // Resume after a reconnect: replay what the client missed
+  const since = Number(req.headers['last-event-id'] ?? NaN);
+  if (Number.isFinite(since)) {
+    history
+      .filter((event) => event.projectId === projectId && event.id > since)
+      .forEach((event) => writeEvent(res, event));
+  }
+
+  const clients = subscribers.get(projectId) ?? new Set();
+  clients.add(res);
+  subscribers.set(projectId, clients);
+  console.log(`[events] client joined project ${projectId} (${clients.size} connected)`);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+    console.log(`[events] client left project ${projectId} (${clients.size} connected)`);
+  });
+}
+
+function sendJson(req, res, status, body) {
+  res.writeHead(status, { ...corsHeaders(req), 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readJson(req, callback) {
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    try {
+      callback(JSON.parse(body));
+    } catch {
+      callback(null);
+    }
+  });
+}
+
+function broadcast(projectId, type, data) {
+  lastId += 1;
+  const event = { id: lastId, projectId, type, data };
+  history.push(event);
+  if (history.length > HISTORY_LIMIT) history.shift();
+
+  const clients = subscribers.get(projectId) ?? new Set();
+  clients.forEach((client) => writeEvent(client, event));
+  console.log(`[events] ${type} #${event.id} sent to ${clients.size} client(s) of project ${projectId}`);
+  return { id: event.id, delivered: clients.size };
+}
+
+function publish(req, res, projectId) {
+  readJson(req, (payload) => {
+    if (!payload || typeof payload.type !== 'string') {
+      sendJson(req, res, 400, { message: 'Expected {"type": "...", "data": {...}}' });
+      return;
+    }
+    sendJson(req, res, 202, broadcast(projectId, payload.type, payload.data ?? {}));
+  });
+}
+
+// The real backend knows the user from the token; here the token's claims are read unverified
+function usernameFrom(req) {
+  const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1];
+  try {
+    const claims = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+    return claims.preferred_username ?? claims.name ?? claims.sub ?? 'guest';
+  } catch {
+    return token ? `user-${token.slice(-4)}` : 'guest';
+  }
+}
+
+function viewersOf(projectId) {
+  const sessions = presence.get(projectId) ?? new Map();
+  const now = Date.now();
+  sessions.forEach((viewer, sessionId) => {
+    if (now - viewer.seenAt > PRESENCE_TTL_MS) sessions.delete(sessionId);
+  });
+  return {
+    viewers: Array.from(sessions.values(), ({ sessionId, username, editingTaskId }) => ({
+      sessionId,
+      username,
+      editingTaskId,
+    })),
+  };
+}
+
+function handlePresence(req, res, projectId, sessionId) {
+  if (req.method === 'GET') {
+    sendJson(req, res, 200, viewersOf(projectId));
+    return;
+  }
+  const sessions = presence.get(projectId) ?? new Map();
+  presence.set(projectId, sessions);
+
+  if (req.method === 'DELETE' && sessionId) {
+    sessions.delete(sessionId);
+    broadcast(projectId, 'presence.updated', viewersOf(projectId));
+    sendJson(req, res, 204);
+    return;
+  }
+  if (req.method !== 'PUT') {
+    sendJson(req, res, 405, { message: 'Method not allowed' });
+    return;
+  }
+  readJson(req, (payload) => {
+    if (!payload || typeof payload.sessionId !== 'string') {
+      sendJson(req, res, 400, { message: 'Expected {"sessionId": "...", "editingTaskId": null}' });
+      return;
+    }
+    const previous = sessions.get(payload.sessionId);
+    const editingTaskId = payload.editingTaskId ?? null;
+    sessions.set(payload.sessionId, {
+      sessionId: payload.sessionId,
+      username: usernameFrom(req),
+      editingTaskId,
+      seenAt: Date.now(),
+    });
+    // Heartbeats that change nothing aren't worth an event
+    if (!previous || previous.editingTaskId !== editingTaskId) {
+      broadcast(projectId, 'presence.updated', viewersOf(projectId));
+    }
+    sendJson(req, res, 204);
+  });
+}
+
+function forward(req, res) {
+  const upstream = http.request(
+    new URL(req.url ?? '/', UPSTREAM),
+    { method: req.method, headers: { ...req.headers, host: UPSTREAM.host } },
+    (upstreamRes) => {
+      res.writeHead(upstreamRes.statusCode ?? 502, { ...upstreamRes.headers, ...corsHeaders(req) });
+      upstreamRes.pipe(res);
+    },
+  );
+  upstream.on('error', (error) => {
+    sendJson(req, res, 502, { message: `Upstream ${UPSTREAM.origin} unreachable: ${error.message}` });
+  });
+  req.pipe(upstream);
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders(req));
+    res.end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const presenceMatch = PRESENCE_PATH.exec(pathname);
+  if (presenceMatch) {
+    const [, projectId, sessionId] = presenceMatch;
+    handlePresence(req, res, decodeURIComponent(projectId), sessionId && decodeURIComponent(sessionId));
+    return;
+  }
+
+  const match = EVENTS_PATH.exec(pathname);
+  if (match && req.method === 'GET') {
+    subscribe(req, res, decodeURIComponent(match[1]));
+  } else if (match && req.method === 'POST') {
+    publish(req, res, decodeURIComponent(match[1]));
+  } else {
+    forward(req, res);
+  }
+});
+
+// Tabs that closed without saying goodbye drop out once their heartbeats stop
+setInterval(() => {
+  presence.forEach((sessions, projectId) => {
+    const before = sessions.size;
+    const current = viewersOf(projectId);
+    if (sessions.size !== before) broadcast(projectId, 'presence.updated', current);
+  });
+}, HEARTBEAT_MS);
+
+server.listen(PORT, () => {
+  console.log(`[events] mock event server on http://localhost:${PORT}, forwarding the API to ${UPSTREAM.origin}`);
+});
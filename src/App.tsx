@@ -1,15 +1,24 @@
+import { useEffect } from 'react';
 import { createBrowserRouter, RouterProvider } from 'react-router-dom';
 import Layout from './components/Layout';
 import ProtectedRoute from './components/ProtectedRoute';
+import AuthCallbackPage from './routes/AuthCallbackPage';
 import LoginPage from './routes/LoginPage';
 import MenuPage from './routes/MenuPage';
 import ProjectDetailPage from './routes/ProjectDetailPage';
+import { queryClient } from './queryClient';
+import { onSessionExpired, syncSessionAcrossTabs } from './utils/auth';
+import { OIDC_CALLBACK_PATH } from './api/oidc';
 
 const router = createBrowserRouter([
   {
     path: '/login',
     element: <LoginPage />,
   },
+  {
+    path: OIDC_CALLBACK_PATH,
+    element: <AuthCallbackPage />,
+  },
   {
     path: '/',
     element: (
@@ -25,5 +34,24 @@ const router = createBrowserRouter([
 ]);
 
 export default function App() {
+  // A 401 from the API, or a logout in another tab, ends the session: drop cached data and go to
+  // login, keeping the current location so the user lands back on it after signing in (same as
+  // ProtectedRoute)
+  useEffect(() => {
+    const stopListening = onSessionExpired(() => {
+      const { location } = router.state;
+      queryClient.clear();
+      if (location.pathname !== '/login' && location.pathname !== OIDC_CALLBACK_PATH) {
+        router.navigate('/login', { replace: true, state: { from: location } });
+      }
+    });
+    const stopSyncing = syncSessionAcrossTabs();
+
+    return () => {
+      stopListening();
+      stopSyncing();
+    };
+  }, []);
+
   return <RouterProvider router={router} />;
 }
@@ -1,10 +1,12 @@
-import { apiRequest } from './client';
+import { apiRequest, fetchAllPages } from './client';
 import type { ActionRes, ActionCreateInput, ActionUpdateInput, Page } from '../types';
+import { actionSchema, pageSchema } from './schemas';
 
 interface ListActionsParams {
   taskId?: string;
   size?: number;
   page?: number;
+  signal?: AbortSignal;
 }
 
 export async function listActions(params: ListActionsParams = {}): Promise<Page<ActionRes>> {
@@ -21,67 +23,38 @@ export async function listActions(params: ListActionsParams = {}): Promise<Page<
   }
 
   return apiRequest<Page<ActionRes>>('/api/actions', {
-    searchParams: searchParams
+    schema: pageSchema(actionSchema),
+    searchParams: searchParams,
+    signal: params.signal,
   });
 }
 
+// Largest page the backend serves; tasks with more actions are fetched over several pages
+const ACTIONS_PAGE_SIZE = 1000;
+
+export function listAllTaskActions(taskId: string, signal?: AbortSignal): Promise<ActionRes[]> {
+  return fetchAllPages((page) => listActions({ taskId, page, size: ACTIONS_PAGE_SIZE, signal }));
+}
+
 export async function getAction(id: string): Promise<ActionRes> {
-  return apiRequest<ActionRes>(`/api/actions/${id}`);
+  return apiRequest<ActionRes>(`/api/actions/${id}`, { schema: actionSchema });
 }
 
+// Request and response details are traced by apiRequest under the `api` log namespace
 export async function createAction(input: ActionCreateInput): Promise<ActionRes> {
-  console.log('createAction API: Sending request with data:', input);
-  console.log('createAction API: Request body:', JSON.stringify(input));
-  
-  try {
-    const result = await apiRequest<ActionRes>('/api/actions', {
-      method: 'POST',
-      body: JSON.stringify(input)
-    });
-    console.log('createAction API: Success response:', result);
-    return result;
-  } catch (error) {
-    console.error('createAction API: Request failed:', error);
-    
-    // Add more specific error details for debugging
-    if (error instanceof Error) {
-      console.error('Error name:', error.name);
-      console.error('Error message:', error.message);
-      if (error.message.includes('fetch')) {
-        console.error('This is a network/fetch error - likely backend is not running or wrong URL');
-      }
-    }
-    
-    throw error;
-  }
+  return apiRequest<ActionRes>('/api/actions', {
+    schema: actionSchema,
+    method: 'POST',
+    body: JSON.stringify(input)
+  });
 }
 
 export async function updateAction(id: string, input: ActionUpdateInput): Promise<ActionRes> {
-  console.log('updateAction API: Updating action with ID:', id);
-  console.log('updateAction API: Update data:', input);
-  console.log('updateAction API: Request body:', JSON.stringify(input));
-  
-  try {
-    const result = await apiRequest<ActionRes>(`/api/actions/${id}`, {
-      method: 'PATCH',
-      body: JSON.stringify(input)
-    });
-    console.log('updateAction API: Success response:', result);
-    return result;
-  } catch (error) {
-    console.error('updateAction API: Request failed:', error);
-    
-    // Add more specific error details for debugging
-    if (error instanceof Error) {
-      console.error('updateAction Error name:', error.name);
-      console.error('updateAction Error message:', error.message);
-      if (error.message.includes('fetch')) {
-        console.error('updateAction: This is a network/fetch error - likely backend is not running or wrong URL');
-      }
-    }
-    
-    throw error;
-  }
+  return apiRequest<ActionRes>(`/api/actions/${id}`, {
+    schema: actionSchema,
+    method: 'PATCH',
+    body: JSON.stringify(input)
+  });
 }
 
 export async function deleteAction(id: string): Promise<void> {
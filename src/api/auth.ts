@@ -0,0 +1,122 @@
+import { apiRequest } from './client';
+import { tokenResponseSchema, type TokenResponse } from './schemas';
+import { getOidcLogoutUrl, refreshOidcTokens } from './oidc';
+import {
+  clearAuth,
+  getAuthProvider,
+  getAuthToken,
+  getAuthUsername,
+  getIdToken,
+  getRefreshToken,
+  saveSession,
+  type AuthProvider,
+} from '../utils/auth';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('auth');
+
+export interface LoginInput {
+  username: string;
+  password: string;
+}
+
+// `provider` is only passed on login; refreshes keep the session's provider
+function storeTokens(username: string, response: TokenResponse, provider?: AuthProvider) {
+  saveSession({
+    username,
+    token: response.token,
+    expiresInSeconds: response.expiresIn,
+    refreshToken: response.refreshToken,
+    refreshExpiresInSeconds: response.refreshExpiresIn,
+    idToken: response.idToken,
+    provider,
+  });
+}
+
+/** Exchanges credentials for API tokens and stores the session. */
+export async function login({ username, password }: LoginInput) {
+  const response = await apiRequest<TokenResponse>('/api/auth/login', {
+    schema: tokenResponseSchema,
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+    anonymous: true,
+  });
+
+  storeTokens(username, response, 'password');
+  return response;
+}
+
+let pendingRefresh: Promise<void> | null = null;
+
+const REFRESH_LOCK_NAME = 'tms-auth-refresh';
+
+// Holds a lock shared by every tab of the app while `task` runs, so tabs refresh one at a time.
+// Browsers without the Web Locks API just run the task.
+async function withRefreshLock(task: () => Promise<void>): Promise<void> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return task();
+  }
+  await navigator.locks.request(REFRESH_LOCK_NAME, task);
+}
+
+/**
+ * Trades the refresh token for a new access token. Concurrent callers in this tab (several
+ * requests failing with 401 at once, or the background timer) share a single refresh request,
+ * and other tabs wait for it and reuse its tokens instead of spending the refresh token again.
+ */
+export function refreshSession(): Promise<void> {
+  if (!pendingRefresh) {
+    const tokenBefore = getAuthToken();
+
+    pendingRefresh = withRefreshLock(async () => {
+      // Another tab refreshed while we waited for the lock; its tokens are already in storage
+      const currentToken = getAuthToken();
+      if (currentToken && currentToken !== tokenBefore) {
+        return;
+      }
+
+      const refreshToken = getRefreshToken();
+      const username = getAuthUsername();
+      if (!refreshToken || !username) {
+        throw new Error('The session can no longer be refreshed.');
+      }
+
+      // SSO sessions are refreshed at the identity provider, password sessions at our API
+      const response =
+        getAuthProvider() === 'oidc'
+          ? await refreshOidcTokens(refreshToken)
+          : await apiRequest<TokenResponse>('/api/auth/refresh', {
+              schema: tokenResponseSchema,
+              method: 'POST',
+              body: JSON.stringify({ refreshToken }),
+              anonymous: true,
+            });
+      storeTokens(username, response);
+    }).finally(() => {
+      pendingRefresh = null;
+    });
+  }
+
+  return pendingRefresh;
+}
+
+/**
+ * Ends the local session. For SSO sessions it resolves to the identity provider's logout URL,
+ * which the caller should navigate to so the provider's session ends too.
+ */
+export async function logout(): Promise<string | null> {
+  const provider = getAuthProvider();
+  const idToken = getIdToken();
+  clearAuth();
+
+  if (provider !== 'oidc') {
+    return null;
+  }
+
+  try {
+    return await getOidcLogoutUrl(idToken);
+  } catch (error) {
+    log.warn('Could not build the identity provider logout URL', error);
+    return null;
+  }
+}
@@ -1,5 +1,17 @@
 // src/api/client.ts
+import type { ZodType, ZodTypeDef } from 'zod'
+import type { Page } from '../types'
+import { ApiContractError, ApiError, parseApiError } from './errors'
+import { describeSchemaIssues } from './schemas'
+import { createLogger } from '../utils/logger'
+import { expireSession, getAuthToken, getRefreshToken } from '../utils/auth'
+import { refreshSession } from './auth'
+
+const log = createLogger('api')
+
 const DEFAULT_PAGE_SIZE = Number(import.meta.env.VITE_DEFAULT_PAGE_SIZE ?? '20')
+const DEFAULT_TIMEOUT_MS = Number(import.meta.env.VITE_API_TIMEOUT_MS ?? '15000')
+const DEFAULT_RETRIES = 2
 // Leave base empty for dev proxy OR keep env for non-proxied prod
 const API_BASE_URL =
   (import.meta.env.VITE_API_URL as string | undefined) ??
@@ -9,6 +21,17 @@ export interface RequestOptions extends RequestInit {
   searchParams?: Record<string, string | number | boolean | undefined | null>;
 }
 
+export interface ApiRequestOptions<T> extends RequestOptions {
+  /** Aborts the attempt after this long; 0 disables the timeout. */
+  timeoutMs?: number;
+  /** Retries for idempotent requests; ignored for mutations, which are never retried. */
+  retries?: number;
+  /** Sends the request without the session token and skips refresh-on-401 (e.g. login). */
+  anonymous?: boolean;
+  /** Validates and normalizes the response body; a mismatch throws `ApiContractError`. */
+  schema?: ZodType<T, ZodTypeDef, unknown>;
+}
+
 const isAbsolute = (u: string) => /^https?:\/\//i.test(u)
 
 function buildUrl(path: string, qp?: RequestOptions['searchParams']) {
@@ -20,46 +43,233 @@ function buildUrl(path: string, qp?: RequestOptions['searchParams']) {
   return isAbsolute(base) ? url.toString() : url.pathname + url.search
 }
 
-export async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
-  const { searchParams, headers, ...init } = options
+// Backoff before retry n (0-based): 500ms, 1s, 2s… plus jitter so tabs don't retry in lockstep
+const RETRY_BASE_DELAY_MS = 500
+const RETRYABLE_STATUSES = new Set([502, 503, 504])
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD'])
+
+function isRetryable(error: unknown) {
+  return (
+    error instanceof ApiError &&
+    (error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT' || RETRYABLE_STATUSES.has(error.status))
+  )
+}
+
+function wait(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+function isUnauthorized(error: unknown) {
+  return error instanceof ApiError && error.status === 401
+}
+
+async function tryRefreshSession() {
+  try {
+    await refreshSession()
+    return true
+  } catch (error) {
+    log.warn('Session refresh failed', error)
+    return false
+  }
+}
+
+/**
+ * Sends a request and parses the response. GET requests that fail with a network error,
+ * a timeout or a 502/503/504 are retried with exponential backoff; other methods never are.
+ * Aborting `signal` cancels the request and any pending retry.
+ *
+ * An expired access token is refreshed before sending. A request rejected with 401 is sent
+ * once more after a refresh (mutations included, since the server didn't act on it), so an
+ * open form survives the token running out; if that fails too the session ends.
+ */
+export async function apiRequest<T>(path: string, options: ApiRequestOptions<T> = {}): Promise<T> {
+  if (options.anonymous) return requestWithRetries(path, options)
+
+  if (!getAuthToken() && getRefreshToken()) await tryRefreshSession()
+
+  try {
+    return await requestWithRetries(path, options)
+  } catch (error) {
+    if (!isUnauthorized(error)) throw error
+    log.info(`${options.method ?? 'GET'} ${path} was rejected with 401; refreshing the session`)
+    if (!getRefreshToken() || !(await tryRefreshSession())) {
+      expireSession()
+      throw error
+    }
+  }
+
+  try {
+    return await requestWithRetries(path, options)
+  } catch (error) {
+    if (isUnauthorized(error)) expireSession()
+    throw error
+  }
+}
+
+async function requestWithRetries<T>(path: string, options: ApiRequestOptions<T>): Promise<T> {
+  const { retries = DEFAULT_RETRIES, ...requestOptions } = options
+  const method = (options.method ?? 'GET').toUpperCase()
+  const maxRetries = IDEMPOTENT_METHODS.has(method) ? retries : 0
+
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await sendRequest(path, requestOptions)
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error) || options.signal?.aborted) throw error
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25)
+      log.warn(`Retrying ${method} ${path} in ${Math.round(delay)}ms (attempt ${attempt + 2} of ${maxRetries + 1})`)
+      await wait(delay, options.signal)
+    }
+  }
+}
+
+async function sendRequest<T>(path: string, options: ApiRequestOptions<T>): Promise<T> {
+  const { searchParams, headers, schema, timeoutMs = DEFAULT_TIMEOUT_MS, signal, anonymous, ...init } = options
   const url = buildUrl(path, searchParams)
-  
-  // Enable detailed logging for debugging
-  console.log('🌐 API Request Details:');
-  console.log('  Path:', path);
-  console.log('  Method:', init.method ?? 'GET');
-  console.log('  Full URL:', url);
-  console.log('  API_BASE_URL:', API_BASE_URL);
-  console.log('  Body:', init.body);
+
+  const endpoint = `${init.method ?? 'GET'} ${path}`
+  log.debug(`→ ${endpoint}`, { url, body: init.body })
+
+  // One controller per attempt, aborted by the caller's signal or by the timeout
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeoutMs)
+    : undefined
+  const forwardAbort = () => controller.abort(signal?.reason)
+  if (signal?.aborted) forwardAbort()
+  else signal?.addEventListener('abort', forwardAbort, { once: true })
+
+  const token = anonymous ? null : getAuthToken()
 
   try {
     const res = await fetch(url, {
       headers: {
         'Accept': 'application/json',
         ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
         ...headers,
       },
       ...init,
+      signal: controller.signal,
     })
 
-    console.log('🌐 API Response:', res.status, res.statusText);
-
-    if (res.status === 204) return undefined as T
+    if (res.status === 204) {
+      log.debug(`← ${endpoint} ${res.status}`)
+      return undefined as T
+    }
     const text = await res.clone().text()
-    console.log('🌐 API Response Body:', text);
-    
-    if (!res.ok) throw new Error(text || `${res.status} ${res.statusText}`)
-    try { return await res.json() as T } catch { return text as unknown as T }
+    log.debug(`← ${endpoint} ${res.status} ${res.statusText}`, text)
+
+    if (!res.ok) throw parseApiError(res.status, res.statusText, text)
+    if (!schema) {
+      try { return await res.json() as T } catch { return text as unknown as T }
+    }
+
+    let payload: unknown
+    try {
+      payload = JSON.parse(text)
+    } catch {
+      throw new ApiContractError(endpoint, res.status, ['Response body is not valid JSON'])
+    }
+    const parsed = schema.safeParse(payload)
+    if (!parsed.success) {
+      const issues = describeSchemaIssues(parsed.error)
+      log.error(`Contract mismatch for ${endpoint}`, issues)
+      throw new ApiContractError(endpoint, res.status, issues)
+    }
+    return parsed.data
   } catch (error) {
-    console.error('🌐 API Request Failed:', error);
+    if (timedOut) {
+      throw new ApiError({
+        status: 0,
+        code: 'TIMEOUT',
+        message: 'The server took too long to respond. Please try again.',
+      })
+    }
+    // Cancelled by the caller (e.g. React Query after navigation): pass the abort through untouched
+    if (signal?.aborted) throw error
+    log.error(`${endpoint} failed`, error)
     if (error instanceof TypeError && error.message.includes('fetch')) {
-      console.error('🌐 This is a network error - likely one of:');
-      console.error('  1. Backend server is not running');
-      console.error('  2. Wrong API URL configured');
-      console.error('  3. CORS issues');
-      console.error('  4. Network connectivity problems');
+      // Backend down, wrong API URL, CORS or no connectivity
+      log.debug(`Network error for ${endpoint}; API_BASE_URL is "${API_BASE_URL}"`)
+      throw new ApiError({
+        status: 0,
+        code: 'NETWORK_ERROR',
+        message: 'Could not reach the server. Check your connection and try again.',
+      })
     }
     throw error;
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', forwardAbort)
+  }
+}
+
+/**
+ * Loads every page of a paged endpoint. The first page tells how many there are;
+ * the rest are requested in parallel.
+ */
+export async function fetchAllPages<T>(fetchPage: (page: number) => Promise<Page<T>>): Promise<T[]> {
+  const first = await fetchPage(0)
+  if (first.totalPages <= 1) return first.content
+
+  const rest = await Promise.all(
+    Array.from({ length: first.totalPages - 1 }, (_, index) => fetchPage(index + 1)),
+  )
+  return [first, ...rest].flatMap((page) => page.content)
+}
+
+/**
+ * Opens a long-lived response such as a server-sent event stream, authenticated like `apiRequest`
+ * (refresh before sending, one retry after a 401). There is no timeout and no retry on failure:
+ * the caller reads the body and decides when to reconnect.
+ */
+export async function openApiStream(path: string, init: RequestOptions = {}): Promise<Response> {
+  if (!getAuthToken() && getRefreshToken()) await tryRefreshSession()
+
+  let res = await fetchStream(path, init)
+  if (res.status === 401 && getRefreshToken() && (await tryRefreshSession())) {
+    res = await fetchStream(path, init)
+  }
+  if (res.status === 401) expireSession()
+  if (!res.ok) throw parseApiError(res.status, res.statusText, await res.text())
+  return res
+}
+
+async function fetchStream(path: string, { searchParams, headers, ...init }: RequestOptions) {
+  const token = getAuthToken()
+  log.debug(`→ stream ${path}`)
+  try {
+    return await fetch(buildUrl(path, searchParams), {
+      ...init,
+      headers: {
+        'Accept': 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...headers,
+      },
+    })
+  } catch (error) {
+    if (init.signal?.aborted) throw error
+    throw new ApiError({
+      status: 0,
+      code: 'NETWORK_ERROR',
+      message: 'Could not reach the server. Check your connection and try again.',
+    })
   }
 }
 
@@ -0,0 +1,172 @@
+export type FieldErrors = Record<string, string>;
+
+interface ApiErrorInit {
+  status: number;
+  code?: string;
+  message: string;
+  fieldErrors?: FieldErrors;
+}
+
+/**
+ * Error thrown by `apiRequest` for any failed call. `status` is 0 when the server could not be
+ * reached at all; `fieldErrors` maps request field names to the backend's validation messages.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly fieldErrors: FieldErrors;
+
+  constructor({ status, code, message, fieldErrors = {} }: ApiErrorInit) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Thrown when a successful response doesn't match the schema the app expects, i.e. the backend
+ * contract has drifted. `issues` lists the offending fields for bug reports.
+ */
+export class ApiContractError extends ApiError {
+  readonly endpoint: string;
+  readonly issues: string[];
+
+  constructor(endpoint: string, status: number, issues: string[]) {
+    super({
+      status,
+      code: 'CONTRACT_MISMATCH',
+      message: `The server sent an unexpected response for ${endpoint}. Please reload the page; if this keeps happening, report it.`,
+    });
+    this.name = 'ApiContractError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+const STATUS_MESSAGES: Record<number, string> = {
+  400: 'The request was invalid.',
+  401: 'Your session has expired. Please log in again.',
+  403: "You don't have permission to do that in this project. Ask a project owner for access.",
+  404: 'The requested item was not found.',
+  409: 'This item was changed by someone else.',
+  422: 'Some fields are invalid.',
+  500: 'The server ran into a problem. Please try again.',
+  502: 'The server is unavailable. Please try again shortly.',
+  503: 'The server is unavailable. Please try again shortly.',
+  504: 'The server took too long to respond. Please try again.',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Accepts the shapes our backend and Spring use: `[{ field, message | defaultMessage }]`
+// arrays under `errors`/`violations`/`fieldErrors`, or a plain `{ field: message }` map.
+function parseFieldErrors(payload: Record<string, unknown>): FieldErrors {
+  const source = payload.fieldErrors ?? payload.violations ?? payload.errors;
+  const fieldErrors: FieldErrors = {};
+
+  if (Array.isArray(source)) {
+    source.forEach((entry) => {
+      if (!isRecord(entry)) {
+        return;
+      }
+      const field = asText(entry.field) ?? asText(entry.propertyPath) ?? asText(entry.name);
+      const message = asText(entry.message) ?? asText(entry.defaultMessage);
+      if (field && message && !fieldErrors[field]) {
+        fieldErrors[field] = message;
+      }
+    });
+  } else if (isRecord(source)) {
+    Object.entries(source).forEach(([field, value]) => {
+      const message = Array.isArray(value) ? asText(value[0]) : asText(value);
+      if (message) {
+        fieldErrors[field] = message;
+      }
+    });
+  }
+
+  return fieldErrors;
+}
+
+function fallbackMessage(status: number, statusText: string) {
+  return STATUS_MESSAGES[status] ?? `Request failed (${status}${statusText ? ` ${statusText}` : ''})`;
+}
+
+/**
+ * Builds an `ApiError` from a failed response. Only messages from a JSON error payload are
+ * shown to users; HTML error pages and stack traces are replaced by a generic message.
+ */
+export function parseApiError(status: number, statusText: string, body: string): ApiError {
+  let payload: unknown;
+  try {
+    payload = body ? JSON.parse(body) : undefined;
+  } catch {
+    payload = undefined;
+  }
+
+  if (!isRecord(payload)) {
+    return new ApiError({ status, message: fallbackMessage(status, statusText) });
+  }
+
+  const code = asText(payload.code) ?? asText(payload.errorCode) ?? asText(payload.error);
+  // Backends word 403s tersely ("Access Denied"); always explain what it means here
+  if (status === 403) {
+    return new ApiError({ status, code, message: STATUS_MESSAGES[403] });
+  }
+  const message =
+    asText(payload.message) ?? asText(payload.detail) ?? asText(payload.title) ?? fallbackMessage(status, statusText);
+
+  return new ApiError({ status, code, message, fieldErrors: parseFieldErrors(payload) });
+}
+
+export function getErrorMessage(error: unknown, fallback: string) {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return fallback;
+}
+
+export function isForbiddenError(error: unknown) {
+  return error instanceof ApiError && error.status === 403;
+}
+
+// The item changed on the server since the `updatedAt` the update was based on
+export function isConflictError(error: unknown) {
+  return error instanceof ApiError && error.status === 409;
+}
+
+export function getFieldErrors(error: unknown): FieldErrors {
+  return error instanceof ApiError ? error.fieldErrors : {};
+}
+
+/**
+ * Splits a failed submit into messages for the form's own inputs and a banner message. Field
+ * errors for inputs the form doesn't have still end up in the banner so nothing is lost.
+ */
+export function resolveFormErrors(error: unknown, formFields: readonly string[], fallback: string) {
+  const allFieldErrors = getFieldErrors(error);
+  const fieldErrors: FieldErrors = {};
+  const unmatched: string[] = [];
+
+  Object.entries(allFieldErrors).forEach(([field, message]) => {
+    if (formFields.includes(field)) {
+      fieldErrors[field] = message;
+    } else {
+      unmatched.push(`${field}: ${message}`);
+    }
+  });
+
+  const hasFieldErrors = Object.keys(allFieldErrors).length > 0;
+  const formError = hasFieldErrors
+    ? unmatched.length
+      ? unmatched.join(' ')
+      : null
+    : getErrorMessage(error, fallback);
+
+  return { fieldErrors, formError };
+}
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { openApiStream } from './client';
+import { ApiError } from './errors';
+import { setLogSink } from '../utils/logger';
+import {
+  parseProjectEvent,
+  readServerSentEvents,
+  subscribeToProjectEvents,
+  type LiveUpdateStatus,
+  type ServerSentMessage,
+} from './events';
+
+vi.mock('./client', () => ({ openApiStream: vi.fn() }));
+
+// A body that arrives in arbitrary pieces, the way the network delivers it
+function streamOf(chunks: string[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe('project event stream', () => {
+  it('reassembles messages split across chunks and skips comments', async () => {
+    const messages: ServerSentMessage[] = [];
+    const retries: number[] = [];
+    await readServerSentEvents(
+      streamOf([
+        'retry: 1000\n\n: ping\n\nid: 7\nevent: tag.del',
+        'eted\ndata: {"id":\r',
+        '\ndata: "tag-1"}\r\n\n',
+      ]),
+      (message) => messages.push(message),
+      { onRetry: (delayMs) => retries.push(delayMs) },
+    );
+
+    expect(retries).toEqual([1000]);
+    expect(messages).toEqual([{ event: 'tag.deleted', data: '{"id":\n"tag-1"}', id: '7' }]);
+    expect(parseProjectEvent(messages[0])).toEqual({ type: 'tag.deleted', id: 'tag-1' });
+  });
+
+  it('skips unknown events and payloads that break the contract', () => {
+    expect(parseProjectEvent({ event: 'project.archived', data: '{}' })).toBeNull();
+    expect(parseProjectEvent({ event: 'task.updated', data: '{"id":"task-1"}' })).toBeNull();
+  });
+});
+
+// A stream that stays open until the request is aborted, like a live connection
+function openStream(signal: AbortSignal | null | undefined, chunks: string[] = []) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      signal?.addEventListener('abort', () =>
+        controller.error(new DOMException('The request was aborted', 'AbortError')),
+      );
+    },
+  });
+}
+
+describe('project event subscription', () => {
+  const openStreamMock = vi.mocked(openApiStream);
+  const networkError = () =>
+    new ApiError({ status: 0, code: 'NETWORK_ERROR', message: 'Could not reach the server.' });
+
+  function subscribe() {
+    const statuses: LiveUpdateStatus[] = [];
+    const onEvent = vi.fn();
+    const onResync = vi.fn();
+    const unsubscribe = subscribeToProjectEvents('project-1', {
+      onEvent,
+      onResync,
+      onStatusChange: (status) => statuses.push(status),
+    });
+    return { statuses, onEvent, onResync, unsubscribe };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // No jitter, so the backoff delays are exact
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    // The failures below are expected; their warnings would only clutter the output
+    setLogSink(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    openStreamMock.mockReset();
+    setLogSink(null);
+  });
+
+  it('reconnects with backoff, resumes from the last event id and resyncs', async () => {
+    openStreamMock
+      .mockResolvedValueOnce(
+        new Response(streamOf(['id: 7\nevent: tag.deleted\ndata: {"id":"tag-1"}\n\n'])),
+      )
+      .mockRejectedValueOnce(networkError())
+      .mockImplementationOnce(async (_path, { signal } = {}) => new Response(openStream(signal)));
+    const { statuses, onEvent, onResync, unsubscribe } = subscribe();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onEvent).toHaveBeenCalledWith({ type: 'tag.deleted', id: 'tag-1' });
+    expect(statuses).toEqual(['connecting', 'live', 'reconnecting']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(openStreamMock).toHaveBeenCalledTimes(2);
+    expect(openStreamMock.mock.calls[1][1]?.headers).toEqual({ 'Last-Event-ID': '7' });
+    expect(statuses).toEqual(['connecting', 'live', 'reconnecting', 'reconnecting']);
+
+    // The delay doubles after each failed attempt
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(openStreamMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(openStreamMock).toHaveBeenCalledTimes(3);
+    expect(statuses[statuses.length - 1]).toBe('live');
+    expect(onResync).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+  });
+
+  it.each([401, 403])('goes offline without retrying when the server answers %i', async (status) => {
+    openStreamMock.mockRejectedValue(new ApiError({ status, message: 'Not allowed' }));
+    const { statuses, unsubscribe } = subscribe();
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(openStreamMock).toHaveBeenCalledTimes(1);
+    expect(statuses).toEqual(['connecting', 'offline']);
+
+    unsubscribe();
+  });
+
+  it('stops reading and reconnecting once unsubscribed', async () => {
+    openStreamMock.mockImplementation(
+      async (_path, { signal } = {}) => new Response(openStream(signal)),
+    );
+    const { statuses, unsubscribe } = subscribe();
+    await vi.advanceTimersByTimeAsync(0);
+    const [, { signal } = {}] = openStreamMock.mock.calls[0];
+
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(signal?.aborted).toBe(true);
+    expect(openStreamMock).toHaveBeenCalledTimes(1);
+    expect(statuses).toEqual(['connecting', 'live']);
+  });
+
+  it('cancels a pending reconnect when unsubscribed', async () => {
+    openStreamMock.mockRejectedValue(networkError());
+    const { statuses, unsubscribe } = subscribe();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(statuses).toEqual(['connecting', 'reconnecting']);
+
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(openStreamMock).toHaveBeenCalledTimes(1);
+    expect(statuses).toEqual(['connecting', 'reconnecting']);
+  });
+});
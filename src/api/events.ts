@@ -0,0 +1,284 @@
+import { z } from 'zod';
+import type { ProjectEvent } from '../types';
+import { createLogger } from '../utils/logger';
+import { toBoolean } from '../utils/toBoolean';
+import { openApiStream } from './client';
+import { ApiError } from './errors';
+import {
+  actionSchema,
+  describeSchemaIssues,
+  noteSchema,
+  presenceSchema,
+  tagSchema,
+  taskSchema,
+} from './schemas';
+
+const log = createLogger('live');
+
+// On unless VITE_LIVE_UPDATES is set to false (e.g. for a backend without the event stream)
+export const isLiveUpdatesEnabled = toBoolean(import.meta.env.VITE_LIVE_UPDATES ?? 'true');
+
+// Reconnect backoff: 1s, 2s, 4s… up to 30s, plus jitter so clients don't reconnect in lockstep.
+// A `retry:` field from the server replaces the base delay.
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// The server sends a comment at least every 15s; a quieter stream is treated as dead
+const IDLE_TIMEOUT_MS = 45000;
+
+export type LiveUpdateStatus = 'connecting' | 'live' | 'reconnecting' | 'offline';
+
+export interface ServerSentMessage {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+interface ReadServerSentEventsOptions {
+  /** The server's `retry:` field, the reconnection delay it asks for in milliseconds. */
+  onRetry?: (delayMs: number) => void;
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Reads a `text/event-stream` body and calls `onMessage` for each complete message. Resolves when
+ * the server closes the stream; rejects if nothing (not even a comment) arrives for `idleTimeoutMs`.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: ServerSentMessage) => void,
+  { onRetry, idleTimeoutMs = IDLE_TIMEOUT_MS }: ReadServerSentEventsOptions = {},
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let message: ServerSentMessage = { event: 'message', data: '' };
+  let dataLines: string[] = [];
+  let stalled = false;
+
+  const dispatch = () => {
+    if (dataLines.length) {
+      onMessage({ ...message, data: dataLines.join('\n') });
+    }
+    message = { event: 'message', data: '' };
+    dataLines = [];
+  };
+
+  const handleLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) {
+      return;
+    }
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    switch (field) {
+      case 'event':
+        message.event = value;
+        return;
+      case 'data':
+        dataLines.push(value);
+        return;
+      case 'id':
+        message.id = value;
+        return;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          onRetry?.(Number(value));
+        }
+        return;
+      default:
+        return;
+    }
+  };
+
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      stalled = true;
+      void reader.cancel();
+    }, idleTimeoutMs);
+  };
+
+  try {
+    resetIdleTimer();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      resetIdleTimer();
+      buffer += decoder.decode(value, { stream: true });
+      // A trailing \r may be the first half of \r\n, so it isn't a line break yet
+      const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+      // The last piece may be a line that hasn't fully arrived yet
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+  } finally {
+    clearTimeout(idleTimer);
+  }
+
+  if (stalled) {
+    throw new Error(`No data on the event stream for ${idleTimeoutMs / 1000}s`);
+  }
+}
+
+const deletionSchema = z.object({
+  id: z.coerce.string(),
+  taskId: z
+    .string()
+    .nullish()
+    .transform((value) => value ?? undefined),
+});
+
+function parseEventPayload(type: string, payload: unknown): ProjectEvent | null {
+  switch (type) {
+    case 'task.created':
+    case 'task.updated':
+      return { type, task: taskSchema.parse(payload) };
+    case 'tag.created':
+    case 'tag.updated':
+      return { type, tag: tagSchema.parse(payload) };
+    case 'note.created':
+    case 'note.updated':
+      return { type, note: noteSchema.parse(payload) };
+    case 'action.created':
+    case 'action.updated':
+      return { type, action: actionSchema.parse(payload) };
+    case 'task.deleted':
+    case 'tag.deleted':
+      return { type, id: deletionSchema.parse(payload).id };
+    case 'note.deleted':
+    case 'action.deleted':
+      return { type, ...deletionSchema.parse(payload) };
+    case 'presence.updated':
+      return { type, viewers: presenceSchema.parse(payload).viewers };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Turns a stream message into a project event. The event name is the change (`task.updated`)
+ * and the data is the changed item as the REST endpoints return it, or `{ id }` for deletions.
+ * Unknown events and payloads that don't match the contract are skipped.
+ */
+export function parseProjectEvent({ event, data }: Pick<ServerSentMessage, 'event' | 'data'>) {
+  try {
+    const parsed = parseEventPayload(event, JSON.parse(data));
+    if (!parsed) {
+      log.debug(`Ignoring unknown event "${event}"`);
+    }
+    return parsed;
+  } catch (error) {
+    log.warn(
+      `Ignoring malformed "${event}" event`,
+      error instanceof z.ZodError ? describeSchemaIssues(error) : error,
+    );
+    return null;
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+export interface ProjectEventHandlers {
+  onEvent: (event: ProjectEvent) => void;
+  onStatusChange?: (status: LiveUpdateStatus) => void;
+  /** Called when the stream is back after a drop, since events may have been missed meanwhile. */
+  onResync?: () => void;
+}
+
+/**
+ * Streams the changes made to a project from `GET /api/projects/{id}/events` and reconnects with
+ * backoff when the connection drops, resuming from the last event id the server sent. Gives up
+ * (`offline`) only when the server refuses the stream. Returns a function that closes it.
+ */
+export function subscribeToProjectEvents(projectId: string, handlers: ProjectEventHandlers) {
+  const controller = new AbortController();
+  const { signal } = controller;
+  const setStatus = (status: LiveUpdateStatus) => {
+    if (!signal.aborted) {
+      handlers.onStatusChange?.(status);
+    }
+  };
+
+  const run = async () => {
+    let attempt = 0;
+    let baseDelay = RECONNECT_BASE_DELAY_MS;
+    let lastEventId: string | undefined;
+    let connectedBefore = false;
+
+    setStatus('connecting');
+    while (!signal.aborted) {
+      try {
+        const res = await openApiStream(`/api/projects/${projectId}/events`, {
+          signal,
+          headers: lastEventId ? { 'Last-Event-ID': lastEventId } : undefined,
+        });
+        if (!res.body) {
+          throw new Error('This browser cannot read streamed responses');
+        }
+        setStatus('live');
+        if (connectedBefore) {
+          handlers.onResync?.();
+        }
+        connectedBefore = true;
+        attempt = 0;
+
+        await readServerSentEvents(
+          res.body,
+          (message) => {
+            lastEventId = message.id ?? lastEventId;
+            const event = parseProjectEvent(message);
+            if (event && !signal.aborted) {
+              handlers.onEvent(event);
+            }
+          },
+          {
+            onRetry: (delayMs) => {
+              baseDelay = delayMs;
+            },
+          },
+        );
+        log.info(`Event stream of project ${projectId} closed by the server`);
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        // Not found, not allowed or signed out (the session has already ended): retrying won't help
+        if (error instanceof ApiError && [401, 403, 404].includes(error.status)) {
+          log.warn(`Live updates unavailable for project ${projectId}`, error);
+          setStatus('offline');
+          return;
+        }
+        log.warn(`Event stream of project ${projectId} failed`, error);
+      }
+
+      const delay =
+        Math.min(baseDelay * 2 ** attempt, RECONNECT_MAX_DELAY_MS) * (1 + Math.random() * 0.25);
+      attempt += 1;
+      setStatus('reconnecting');
+      log.debug(`Reconnecting in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  };
+
+  void run();
+  return () => controller.abort();
+}
@@ -1,5 +1,6 @@
 import { apiRequest, DEFAULT_PAGE_SIZE } from './client';
 import type { NoteCreateInput, NoteRes, NoteUpdateInput, Page } from '../types';
+import { noteSchema, pageSchema } from './schemas';
 
 export interface ListNotesParams {
   projectId?: string;
@@ -7,24 +8,33 @@ export interface ListNotesParams {
   page?: number;
   size?: number;
   sort?: string;
+  signal?: AbortSignal;
 }
 
 export function listNotes(params: ListNotesParams = {}) {
-  const { projectId, taskId, page = 0, size = DEFAULT_PAGE_SIZE, sort = 'createdAt,desc' } = params;
+  const { projectId, taskId, page = 0, size = DEFAULT_PAGE_SIZE, sort = 'createdAt,desc', signal } = params;
   return apiRequest<Page<NoteRes>>('/api/notes', {
+    schema: pageSchema(noteSchema),
     searchParams: { projectId, taskId, page, size, sort },
+    signal,
   });
 }
 
 export function createNote(payload: NoteCreateInput) {
   return apiRequest<NoteRes>('/api/notes', {
+    schema: noteSchema,
     method: 'POST',
     body: JSON.stringify(payload),
   });
 }
 
+export function getNote(noteId: string) {
+  return apiRequest<NoteRes>(`/api/notes/${noteId}`, { schema: noteSchema });
+}
+
 export function updateNote(noteId: string, payload: NoteUpdateInput) {
   return apiRequest<NoteRes>(`/api/notes/${noteId}`, {
+    schema: noteSchema,
     method: 'PATCH',
     body: JSON.stringify(payload),
   });
@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import { ApiError } from './errors';
+import { tokenResponseSchema, type TokenResponse } from './schemas';
+import { saveSession } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('auth');
+
+// Single sign-on through the company identity provider (authorization code flow with PKCE).
+// It is switched on by setting VITE_OIDC_ISSUER and VITE_OIDC_CLIENT_ID.
+const OIDC_ISSUER = (import.meta.env.VITE_OIDC_ISSUER as string | undefined)?.replace(/\/+$/, '');
+const OIDC_CLIENT_ID = import.meta.env.VITE_OIDC_CLIENT_ID as string | undefined;
+const OIDC_SCOPE =
+  (import.meta.env.VITE_OIDC_SCOPE as string | undefined) ?? 'openid profile email offline_access';
+
+export const OIDC_CALLBACK_PATH = '/auth/callback';
+const PENDING_LOGIN_STORAGE_KEY = 'tms-oidc-pending';
+
+const discoverySchema = z.object({
+  issuer: z.string(),
+  authorization_endpoint: z.string(),
+  token_endpoint: z.string(),
+  end_session_endpoint: z.string().optional(),
+});
+
+type DiscoveryDocument = z.output<typeof discoverySchema>;
+
+const idTokenClaimsSchema = z.object({
+  iss: z.string(),
+  sub: z.string(),
+  aud: z.union([z.string(), z.array(z.string())]),
+  nonce: z.string().optional(),
+  preferred_username: z.string().optional(),
+  email: z.string().optional(),
+  name: z.string().optional(),
+});
+
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+export function isOidcEnabled() {
+  return Boolean(OIDC_ISSUER && OIDC_CLIENT_ID);
+}
+
+function requireConfig() {
+  if (!OIDC_ISSUER || !OIDC_CLIENT_ID) {
+    throw new Error('Single sign-on is not configured.');
+  }
+  return { issuer: OIDC_ISSUER, clientId: OIDC_CLIENT_ID };
+}
+
+const redirectUri = () => `${window.location.origin}${OIDC_CALLBACK_PATH}`;
+
+let discovery: Promise<DiscoveryDocument> | null = null;
+
+function discover(): Promise<DiscoveryDocument> {
+  if (!discovery) {
+    const { issuer } = requireConfig();
+    discovery = fetch(`${issuer}/.well-known/openid-configuration`, {
+      headers: { Accept: 'application/json' },
+    })
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new ApiError({
+            status: res.status,
+            code: 'OIDC_DISCOVERY_FAILED',
+            message: 'Could not reach the sign-in service. Please try again.',
+          });
+        }
+        return discoverySchema.parse(await res.json());
+      })
+      .catch((error) => {
+        // Don't cache failures; the next attempt fetches the document again
+        discovery = null;
+        throw error;
+      });
+  }
+  return discovery;
+}
+
+function base64UrlEncode(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+function randomString(byteLength = 32) {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+async function codeChallengeFor(verifier: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+async function requestTokens(params: Record<string, string>): Promise<TokenResponse> {
+  const { token_endpoint: tokenEndpoint } = await discover();
+  const res = await fetch(tokenEndpoint, {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ client_id: requireConfig().clientId, ...params }),
+  });
+  const payload: unknown = await res.json().catch(() => undefined);
+
+  if (!res.ok) {
+    const error = z
+      .object({ error: z.string().optional(), error_description: z.string().optional() })
+      .safeParse(payload);
+    const details = error.success ? error.data : {};
+    log.warn(`Token request (${params.grant_type}) failed`, res.status, details);
+    throw new ApiError({
+      status: res.status,
+      code: details.error,
+      message: details.error_description ?? 'The sign-in service rejected the request.',
+    });
+  }
+
+  return tokenResponseSchema.parse(payload);
+}
+
+// The ID token's signature isn't checked here: the browser only reads the user's name from it,
+// and the API validates the access token on every request
+function readIdTokenClaims(idToken: string) {
+  const [, payload] = idToken.split('.');
+  return idTokenClaimsSchema.parse(JSON.parse(base64UrlDecode(payload ?? '')));
+}
+
+/** Sends the browser to the identity provider; it comes back on the callback route. */
+export async function beginOidcLogin(returnTo: string) {
+  const { clientId } = requireConfig();
+  const { authorization_endpoint: authorizationEndpoint } = await discover();
+  const pending: PendingLogin = {
+    state: randomString(),
+    nonce: randomString(),
+    codeVerifier: randomString(48),
+    returnTo,
+  };
+  window.sessionStorage.setItem(PENDING_LOGIN_STORAGE_KEY, JSON.stringify(pending));
+
+  const url = new URL(authorizationEndpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: redirectUri(),
+    scope: OIDC_SCOPE,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await codeChallengeFor(pending.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+  window.location.assign(url.toString());
+}
+
+/**
+ * Finishes a login on the callback route: checks `state`, exchanges the code for tokens and
+ * stores the session. Resolves to the path the user started from.
+ */
+export async function completeOidcLogin(search: string): Promise<string> {
+  const params = new URLSearchParams(search);
+  const rawPending = window.sessionStorage.getItem(PENDING_LOGIN_STORAGE_KEY);
+  window.sessionStorage.removeItem(PENDING_LOGIN_STORAGE_KEY);
+
+  const providerError = params.get('error');
+  if (providerError) {
+    throw new Error(params.get('error_description') ?? `Sign-in failed (${providerError}).`);
+  }
+
+  const pending = rawPending ? (JSON.parse(rawPending) as PendingLogin) : null;
+  const code = params.get('code');
+  if (!pending || !code || params.get('state') !== pending.state) {
+    throw new Error('This sign-in link is invalid or has already been used. Please sign in again.');
+  }
+
+  const response = await requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri(),
+    code_verifier: pending.codeVerifier,
+  });
+  if (!response.idToken) {
+    throw new Error('The sign-in service did not return an ID token.');
+  }
+
+  const { issuer, clientId } = requireConfig();
+  const claims = readIdTokenClaims(response.idToken);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const issuerMatches = claims.iss.replace(/\/+$/, '') === issuer;
+  if (!issuerMatches || !audience.includes(clientId) || claims.nonce !== pending.nonce) {
+    throw new Error('The sign-in response could not be verified. Please sign in again.');
+  }
+
+  saveSession({
+    username: claims.preferred_username ?? claims.email ?? claims.name ?? claims.sub,
+    token: response.token,
+    expiresInSeconds: response.expiresIn,
+    refreshToken: response.refreshToken,
+    refreshExpiresInSeconds: response.refreshExpiresIn,
+    idToken: response.idToken,
+    provider: 'oidc',
+  });
+  return pending.returnTo;
+}
+
+export function refreshOidcTokens(refreshToken: string) {
+  return requestTokens({ grant_type: 'refresh_token', refresh_token: refreshToken });
+}
+
+/**
+ * URL that ends the session at the identity provider and returns to the login page, or `null`
+ * when the provider has no logout endpoint.
+ */
+export async function getOidcLogoutUrl(idToken: string | null) {
+  const { clientId } = requireConfig();
+  const { end_session_endpoint: endSessionEndpoint } = await discover();
+  if (!endSessionEndpoint) {
+    return null;
+  }
+
+  const url = new URL(endSessionEndpoint);
+  url.search = new URLSearchParams({
+    client_id: clientId,
+    post_logout_redirect_uri: `${window.location.origin}/login`,
+    ...(idToken ? { id_token_hint: idToken } : {}),
+  }).toString();
+  return url.toString();
+}
@@ -0,0 +1,42 @@
+import { apiRequest } from './client';
+import { presenceSchema } from './schemas';
+import type { ProjectViewer } from '../types';
+
+// Identifies this tab to the presence endpoint; new on every page load, so duplicated tabs differ
+export const PRESENCE_SESSION_ID =
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export async function getProjectPresence(
+  projectId: string,
+  signal?: AbortSignal,
+): Promise<ProjectViewer[]> {
+  const { viewers } = await apiRequest(`/api/projects/${projectId}/presence`, {
+    schema: presenceSchema,
+    signal,
+  });
+  return viewers;
+}
+
+/**
+ * Tells the server this tab has the project open (and which task form, if any). The server drops a
+ * session it hasn't heard from for a minute, so this is repeated while the project stays open.
+ */
+export async function sendPresenceHeartbeat(
+  projectId: string,
+  editingTaskId: string | null,
+): Promise<void> {
+  await apiRequest<void>(`/api/projects/${projectId}/presence`, {
+    method: 'PUT',
+    body: JSON.stringify({ sessionId: PRESENCE_SESSION_ID, editingTaskId }),
+  });
+}
+
+// `keepalive` lets the request finish when it is sent while the page is closing
+export async function leaveProject(projectId: string): Promise<void> {
+  await apiRequest<void>(`/api/projects/${projectId}/presence/${PRESENCE_SESSION_ID}`, {
+    method: 'DELETE',
+    keepalive: true,
+  });
+}
@@ -1,34 +1,47 @@
 import { apiRequest, DEFAULT_PAGE_SIZE } from './client';
-import type { Page, ProjectCreateInput, ProjectRes } from '../types';
+import type { Page, ProjectCreateInput, ProjectRes, ProjectUpdateInput } from '../types';
+import { pageSchema, projectSchema } from './schemas';
 
 export interface ListProjectsParams {
   page?: number;
   size?: number;
   sort?: string;
+  signal?: AbortSignal;
 }
 
 export function listProjects(params: ListProjectsParams = {}) {
-  const { page = 0, size = DEFAULT_PAGE_SIZE, sort = 'createdAt,desc' } = params;
+  const { page = 0, size = DEFAULT_PAGE_SIZE, sort = 'createdAt,desc', signal } = params;
   return apiRequest<Page<ProjectRes>>('/api/projects', {
+    schema: pageSchema(projectSchema),
     searchParams: { page, size, sort },
+    signal,
   });
 }
 
 export function createProject(payload: ProjectCreateInput) {
   return apiRequest<ProjectRes>('/api/projects', {
+    schema: projectSchema,
     method: 'POST',
     body: JSON.stringify(payload),
   });
 }
 
+export function updateProject(projectId: string, payload: ProjectUpdateInput) {
+  return apiRequest<ProjectRes>(`/api/projects/${projectId}`, {
+    schema: projectSchema,
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  });
+}
+
 export function deleteProject(projectId: string) {
   return apiRequest<void>(`/api/projects/${projectId}`, {
     method: 'DELETE',
   });
 }
 
-export function getProject(projectId: string) {
-  return apiRequest<ProjectRes>(`/api/projects/${projectId}`);
+export function getProject(projectId: string, signal?: AbortSignal) {
+  return apiRequest<ProjectRes>(`/api/projects/${projectId}`, { schema: projectSchema, signal });
 }
 
 export interface ImportProjectInput {
@@ -43,6 +56,7 @@ export interface ImportProjectInput {
 
 export function importProject(payload: ImportProjectInput) {
   return apiRequest<ProjectRes>('/api/projects/import', {
+    schema: projectSchema,
     method: 'POST',
     body: JSON.stringify(payload),
   });
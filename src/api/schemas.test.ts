@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { describeSchemaIssues, pageSchema, taskSchema } from './schemas';
+
+const rawTask = {
+  id: 'task-1',
+  projectId: 'project-1',
+  title: 'Pour foundation',
+  description: null,
+  isActivity: 'true',
+  duration: '3',
+  startAt: '2024-01-01T00:00:00.000Z',
+  endAt: '2024-01-03T00:00:00.000Z',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  color: null,
+};
+
+describe('response schemas', () => {
+  it('normalizes loose task fields', () => {
+    const task = taskSchema.parse(rawTask);
+
+    expect(task.isActivity).toBe(true);
+    expect(task.duration).toBe(3);
+    expect(task.description).toBeUndefined();
+    expect(task.color).toBeUndefined();
+  });
+
+  it('reports where a page drifts from the contract', () => {
+    const result = pageSchema(taskSchema).safeParse({
+      content: [{ ...rawTask, title: undefined }],
+      totalElements: 1,
+      totalPages: 1,
+      size: 20,
+      number: 0,
+      numberOfElements: 1,
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(describeSchemaIssues(result.error)).toEqual(['content.0.title: Required']);
+    }
+  });
+});
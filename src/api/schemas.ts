@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import type { ActionRes, NoteRes, Page, ProjectRes, ProjectViewer, TagRes, TaskRes } from '../types';
+import { toBoolean } from '../utils/toBoolean';
+
+// Response schemas for the backend contract. They also normalize the loose spots of the API:
+// `null` for absent optional fields and `isActivity` sent as "true"/"1" strings.
+
+type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+const optionalText = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined);
+
+const looseBoolean = z
+  .unknown()
+  .transform((value) => (value === undefined || value === null ? undefined : toBoolean(value)));
+
+// Roles arrive in any case ("EDITOR", "Editor"); unknown roles fall back to the most restrictive
+const projectRole = z
+  .string()
+  .nullish()
+  .transform((value) => {
+    if (!value) {
+      return undefined;
+    }
+    const role = value.trim().toLowerCase();
+    return role === 'owner' || role === 'editor' ? role : 'viewer';
+  });
+
+export const projectSchema: ResponseSchema<ProjectRes> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: optionalText,
+  startDate: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  role: projectRole,
+});
+
+export const noteSchema: ResponseSchema<NoteRes> = z.object({
+  id: z.string(),
+  projectId: optionalText,
+  taskId: optionalText,
+  body: z.string(),
+  createdAt: z.string(),
+  updatedAt: optionalText,
+});
+
+const taskDependencySchema = z.object({
+  predecessorId: z.string(),
+  type: z.enum(['FS', 'SS', 'FF']),
+});
+
+export const taskSchema: ResponseSchema<TaskRes> = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  title: z.string(),
+  description: optionalText,
+  isActivity: looseBoolean,
+  duration: z.coerce.number(),
+  startAt: z.string(),
+  endAt: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  note: noteSchema.nullish(),
+  color: optionalText,
+  dependencies: z
+    .array(taskDependencySchema)
+    .nullish()
+    .transform((value) => value ?? undefined),
+});
+
+export const tagSchema: ResponseSchema<TagRes> = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  title: z.string(),
+  description: optionalText,
+  duration: z.coerce.number(),
+  startAt: z.string(),
+  endAt: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  color: optionalText,
+});
+
+export const actionSchema: ResponseSchema<ActionRes> = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  day: z.coerce.number(),
+  details: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const projectViewerSchema: ResponseSchema<ProjectViewer> = z.object({
+  sessionId: z.string(),
+  username: z.string(),
+  displayName: optionalText,
+  editingTaskId: optionalText,
+});
+
+// Who has a project open; both the presence endpoint and `presence.updated` events send this
+export const presenceSchema = z.object({ viewers: z.array(projectViewerSchema) });
+
+export function pageSchema<T>(item: ResponseSchema<T>): ResponseSchema<Page<T>> {
+  return z.object({
+    content: z.array(item),
+    totalElements: z.number(),
+    totalPages: z.number(),
+    size: z.number(),
+    number: z.number(),
+    numberOfElements: z.number(),
+  });
+}
+
+// Token responses from our login endpoint (camelCase) or an OAuth/OIDC token endpoint
+// (snake_case); lifetimes are in seconds
+export const tokenResponseSchema = z
+  .object({
+    token: z.string().optional(),
+    accessToken: z.string().optional(),
+    access_token: z.string().optional(),
+    expiresIn: z.coerce.number().optional(),
+    expires_in: z.coerce.number().optional(),
+    refreshToken: z.string().optional(),
+    refresh_token: z.string().optional(),
+    refreshExpiresIn: z.coerce.number().optional(),
+    refresh_expires_in: z.coerce.number().optional(),
+    idToken: z.string().optional(),
+    id_token: z.string().optional(),
+  })
+  .transform((data, context) => {
+    const token = data.token ?? data.accessToken ?? data.access_token;
+    if (!token) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: 'Token response has no access token' });
+      return z.NEVER;
+    }
+    return {
+      token,
+      expiresIn: data.expiresIn ?? data.expires_in,
+      refreshToken: data.refreshToken ?? data.refresh_token,
+      refreshExpiresIn: data.refreshExpiresIn ?? data.refresh_expires_in,
+      idToken: data.idToken ?? data.id_token,
+    };
+  });
+
+export type TokenResponse = z.output<typeof tokenResponseSchema>;
+
+/** Flattens zod issues into `path: message` lines for error reports. */
+export function describeSchemaIssues(error: z.ZodError) {
+  return error.issues.map((issue) =>
+    issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+  );
+}
@@ -1,29 +1,39 @@
 import { apiRequest, DEFAULT_PAGE_SIZE } from './client';
 import type { Page, TagCreateInput, TagRes, TagUpdateInput } from '../types';
+import { pageSchema, tagSchema } from './schemas';
 
 export interface ListTagsParams {
   projectId?: string;
   page?: number;
   size?: number;
   sort?: string;
+  signal?: AbortSignal;
 }
 
 export function listTags(params: ListTagsParams = {}) {
-  const { projectId, page = 0, size = DEFAULT_PAGE_SIZE, sort = 'createdAt,asc' } = params;
+  const { projectId, page = 0, size = DEFAULT_PAGE_SIZE, sort = 'createdAt,asc', signal } = params;
   return apiRequest<Page<TagRes>>('/api/tags', {
+    schema: pageSchema(tagSchema),
     searchParams: { projectId, page, size, sort },
+    signal,
   });
 }
 
 export function createTag(payload: TagCreateInput) {
   return apiRequest<TagRes>('/api/tags', {
+    schema: tagSchema,
     method: 'POST',
     body: JSON.stringify(payload),
   });
 }
 
+export function getTag(tagId: string) {
+  return apiRequest<TagRes>(`/api/tags/${tagId}`, { schema: tagSchema });
+}
+
 export function updateTag(tagId: string, payload: TagUpdateInput) {
   return apiRequest<TagRes>(`/api/tags/${tagId}`, {
+    schema: tagSchema,
     method: 'PATCH',
     body: JSON.stringify(payload),
   });
@@ -1,22 +1,27 @@
 import { apiRequest, DEFAULT_PAGE_SIZE } from './client';
 import type { Page, TaskCreateInput, TaskRes, TaskUpdateInput } from '../types';
+import { pageSchema, taskSchema } from './schemas';
 
 export interface ListTasksParams {
   projectId?: string;
   page?: number;
   size?: number;
   sort?: string;
+  signal?: AbortSignal;
 }
 
 export function listTasks(params: ListTasksParams = {}) {
-  const { projectId, page = 0, size = DEFAULT_PAGE_SIZE, sort = 'endAt,asc' } = params;
+  const { projectId, page = 0, size = DEFAULT_PAGE_SIZE, sort = 'endAt,asc', signal } = params;
   return apiRequest<Page<TaskRes>>('/api/tasks', {
+    schema: pageSchema(taskSchema),
     searchParams: { projectId, page, size, sort },
+    signal,
   });
 }
 
 export function createTask(payload: TaskCreateInput) {
   return apiRequest<TaskRes>('/api/tasks', {
+    schema: taskSchema,
     method: 'POST',
     body: JSON.stringify(payload),
   });
@@ -28,8 +33,13 @@ export function deleteTask(taskId: string) {
   });
 }
 
+export function getTask(taskId: string) {
+  return apiRequest<TaskRes>(`/api/tasks/${taskId}`, { schema: taskSchema });
+}
+
 export function updateTask(taskId: string, payload: TaskUpdateInput) {
   return apiRequest<TaskRes>(`/api/tasks/${taskId}`, {
+    schema: taskSchema,
     method: 'PATCH',
     body: JSON.stringify(payload),
   });
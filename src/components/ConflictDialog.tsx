@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import type { ConflictChoice, ConflictField, ConflictResolution } from '../utils/conflicts';
+
+/** What was edited: its kind (`task`) and, if it has one, its title. */
+export interface ConflictItem {
+  kind: string;
+  title?: string;
+}
+
+export interface ConflictDialogProps {
+  /** The dialog is hidden while this is null. */
+  item: ConflictItem | null;
+  fields: ConflictField[];
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+function resolveAll(fields: ConflictField[], choice: ConflictChoice) {
+  return Object.fromEntries(fields.map((field) => [field.label, choice]));
+}
+
+// Asks what to do when someone else saved the same item while the user was editing it
+export default function ConflictDialog({ item, fields, onResolve }: ConflictDialogProps) {
+  // Mounted per conflict, so the choices start from the suggestions every time
+  return item ? <ConflictDialogContent item={item} fields={fields} onResolve={onResolve} /> : null;
+}
+
+function ConflictDialogContent({
+  item,
+  fields,
+  onResolve,
+}: ConflictDialogProps & { item: ConflictItem }) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>(() =>
+    Object.fromEntries(fields.map((field) => [field.label, field.suggested])),
+  );
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div
+        className="modal conflict-dialog"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="conflict-dialog-title"
+        aria-describedby="conflict-dialog-description"
+      >
+        <div className="modal-header">
+          <h3 id="conflict-dialog-title">Someone else changed this {item.kind}</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={() => onResolve(null)}
+            aria-label="Close without saving"
+          >
+            ×
+          </button>
+        </div>
+        <div className="modal-content">
+          <p id="conflict-dialog-description">
+            {item.title ? `"${item.title}"` : `This ${item.kind}`} was saved by someone else while you
+            were editing it. Keep your version, take theirs, or pick per field and merge.
+          </p>
+          <table className="conflict-dialog__table">
+            <thead>
+              <tr>
+                <th scope="col">Field</th>
+                <th scope="col">Yours</th>
+                <th scope="col">Theirs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map((field) => (
+                <tr key={field.label}>
+                  <th scope="row">{field.label}</th>
+                  {(['mine', 'theirs'] as const).map((side) => (
+                    <td
+                      key={side}
+                      className={
+                        choices[field.label] === side ? 'conflict-dialog__cell--chosen' : undefined
+                      }
+                    >
+                      <label>
+                        <input
+                          type="radio"
+                          name={`conflict-${field.label}`}
+                          checked={choices[field.label] === side}
+                          onChange={() =>
+                            setChoices((current) => ({ ...current, [field.label]: side }))
+                          }
+                        />
+                        <span className="conflict-dialog__value">{field[side]}</span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="modal-actions">
+          <button
+            type="button"
+            className="button-secondary"
+            onClick={() => onResolve(resolveAll(fields, 'theirs'))}
+          >
+            Take theirs
+          </button>
+          <button
+            type="button"
+            className="button-secondary"
+            onClick={() => onResolve(resolveAll(fields, 'mine'))}
+          >
+            Keep mine
+          </button>
+          <button type="button" onClick={() => onResolve(choices)}>
+            Save merged
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import type { ProjectRes } from '../types';
+import { getProjectPermissions } from '../utils/permissions';
 
 export interface DeleteProjectModalProps {
   isOpen: boolean;
@@ -49,8 +50,11 @@ export default function DeleteProjectModal({
     }
   };
 
+  // Only owners can delete; say so up front instead of letting the backend answer 403
+  const { canDelete } = getProjectPermissions(project);
+
   const handleConfirmClick = () => {
-    if (submitting) {
+    if (submitting || !canDelete) {
       return;
     }
     void onConfirm();
@@ -78,16 +82,27 @@ export default function DeleteProjectModal({
           </button>
         </div>
         <div className="modal-content">
-          <p>
-            Are you sure you want to delete <strong>{project.name}</strong>? This action cannot be undone.
-          </p>
+          {canDelete ? (
+            <p>
+              Are you sure you want to delete <strong>{project.name}</strong>? This action cannot be undone.
+            </p>
+          ) : (
+            <p>
+              Only a project owner can delete <strong>{project.name}</strong>.
+            </p>
+          )}
           {error ? <p className="error-message">{error}</p> : null}
         </div>
         <div className="modal-actions">
           <button type="button" className="button-secondary" onClick={onCancel} disabled={submitting}>
             Cancel
           </button>
-          <button type="button" className="button-danger" onClick={handleConfirmClick} disabled={submitting}>
+          <button
+            type="button"
+            className="button-danger"
+            onClick={handleConfirmClick}
+            disabled={submitting || !canDelete}
+          >
             {submitting ? 'Deleting…' : 'Delete project'}
           </button>
         </div>
@@ -1,4 +1,5 @@
 import { Outlet, useLocation } from 'react-router-dom';
+import SessionExpiryModal from './SessionExpiryModal';
 
 export default function Layout() {
   const { pathname } = useLocation();
@@ -16,6 +17,7 @@ export default function Layout() {
       <footer className="app-footer">
         {/* <small>API base: {import.meta.env.VITE_API_URL ?? 'http://localhost:8002'}</small> */}
       </footer>
+      <SessionExpiryModal />
     </div>
   );
 }
@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import dayjs from 'dayjs';
+import { useNoteThread } from '../hooks/useNotes';
+import { useConflictResolver } from '../hooks/useConflictResolver';
+import {
+  changedSinceError,
+  createOrDeleteChange,
+  type IdResolver,
+  type UndoableChange,
+} from '../hooks/useUndoHistory';
+import type { NoteOwner, NoteRes, NoteUpdateInput } from '../types';
+import { getNotesPanelInputId, NOTE_MAX_LENGTH } from '../utils/notes';
+import { saveWithConflictCheck, type ConflictFieldSpec } from '../utils/conflicts';
+import { getErrorMessage } from '../api/errors';
+import {
+  createNote as createNoteApi,
+  deleteNote as deleteNoteApi,
+  getNote,
+  updateNote as updateNoteApi,
+} from '../api/notes';
+import { queryClient } from '../queryClient';
+import ConflictDialog from './ConflictDialog';
+
+export interface NotesPanelProps {
+  owner: NoteOwner;
+  emptyMessage?: string;
+  /** Hides the composer and the edit/delete buttons, e.g. for project viewers. */
+  readOnly?: boolean;
+  /** Receives each note added, edited or deleted here, for an undo history. */
+  onUndoableChange?: (change: UndoableChange) => void;
+}
+
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+const NOTE_CONFLICT_FIELDS: ConflictFieldSpec<NoteUpdateInput>[] = [
+  { label: 'Note', keys: ['body'], format: (note) => note.body },
+];
+
+const refreshNotes = () => queryClient.invalidateQueries({ queryKey: ['notes'] });
+
+// Undo and redo call the API directly: the panel may be gone by then (e.g. a closed task dialog)
+function restoreNote(owner: NoteOwner, body: string, ids: IdResolver) {
+  // The note's task may have been deleted and restored under a new id meanwhile
+  const restored = createNoteApi({
+    taskId: 'taskId' in owner ? ids.current(owner.taskId) : undefined,
+    projectId: owner.projectId,
+    body,
+  });
+  return restored.finally(refreshNotes);
+}
+
+function removeNote(noteId: string) {
+  return deleteNoteApi(noteId).finally(refreshNotes);
+}
+
+function noteEditChange(noteId: string, before: string, after: string): UndoableChange {
+  const setBody = (expected: string, body: string) => async (ids: IdResolver) => {
+    const latest = await getNote(ids.current(noteId));
+    if (latest.body !== expected) {
+      throw changedSinceError('The note');
+    }
+    await updateNoteApi(latest.id, { body, updatedAt: latest.updatedAt }).finally(refreshNotes);
+  };
+  return { label: 'editing a note', undo: setBody(after, before), redo: setBody(before, after) };
+}
+
+// Renders links in a note body as anchors; everything else stays plain text
+function renderNoteBody(body: string) {
+  return body.split(URL_PATTERN).map((part, index) =>
+    index % 2 === 1 ? (
+      <a key={index} href={part} target="_blank" rel="noopener noreferrer">
+        {part}
+      </a>
+    ) : (
+      part
+    ),
+  );
+}
+
+function validateNoteBody(body: string) {
+  if (!body) {
+    return 'Provide a note';
+  }
+  if (body.length > NOTE_MAX_LENGTH) {
+    return `Note must be ${NOTE_MAX_LENGTH.toLocaleString()} characters or fewer`;
+  }
+  return null;
+}
+
+/**
+ * Note history of a task or of the project board: every note with its timestamp, newest first.
+ * New notes are added alongside the old ones; each entry can be edited or deleted on its own.
+ */
+export default function NotesPanel({
+  owner,
+  emptyMessage = 'No notes yet.',
+  readOnly = false,
+  onUndoableChange,
+}: NotesPanelProps) {
+  const {
+    data: notes = [],
+    isLoading,
+    isError,
+    createNote,
+    creating,
+    updateNote,
+    updating,
+    deleteNote,
+    deleting,
+  } = useNoteThread(owner);
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingBody, setEditingBody] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { resolveConflict, conflictDialogProps } = useConflictResolver();
+  const busy = creating || updating || deleting;
+
+  const handleAdd = async () => {
+    const body = draft.trim();
+    const validationError = validateNoteBody(body);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    try {
+      const note = await createNote(body);
+      onUndoableChange?.(
+        createOrDeleteChange(
+          'adding a note',
+          'created',
+          note.id,
+          (ids) => restoreNote(owner, body, ids),
+          removeNote,
+        ),
+      );
+      setDraft('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add note'));
+    }
+  };
+
+  const handleStartEdit = (note: NoteRes) => {
+    setEditingId(note.id);
+    setEditingBody(note.body);
+    setError(null);
+  };
+
+  const handleSaveEdit = async (note: NoteRes) => {
+    const body = editingBody.trim();
+    const validationError = validateNoteBody(body);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    try {
+      if (body !== note.body) {
+        // If someone else edited the note meanwhile, the user picks which text to keep
+        const outcome = await saveWithConflictCheck({
+          base: { body: note.body },
+          baseUpdatedAt: note.updatedAt,
+          mine: { body },
+          specs: NOTE_CONFLICT_FIELDS,
+          save: (version, updatedAt) => updateNote(note.id, version.body, updatedAt),
+          fetchLatest: async () => {
+            const latest = await getNote(note.id);
+            return { version: { body: latest.body }, updatedAt: latest.updatedAt };
+          },
+          resolve: resolveConflict({ kind: 'note' }),
+        });
+        if (outcome === 'saved') {
+          onUndoableChange?.(noteEditChange(note.id, note.body, body));
+        }
+      }
+      setEditingId(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update note'));
+    }
+  };
+
+  const handleDelete = async (note: NoteRes) => {
+    if (!window.confirm('Delete this note?')) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await deleteNote(note.id);
+      onUndoableChange?.(
+        createOrDeleteChange(
+          'deleting a note',
+          'deleted',
+          note.id,
+          (ids) => restoreNote(owner, note.body, ids),
+          removeNote,
+        ),
+      );
+      if (editingId === note.id) {
+        setEditingId(null);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete note'));
+    }
+  };
+
+  return (
+    <div className="notes-panel">
+      {!readOnly ? (
+        <div className="notes-panel__composer">
+          <textarea
+            id={getNotesPanelInputId(owner)}
+            aria-label="New note"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            placeholder="Add a note with important context"
+            rows={3}
+            maxLength={NOTE_MAX_LENGTH}
+            disabled={busy}
+          />
+          <div className="notes-panel__composer-actions">
+            <button type="button" onClick={handleAdd} disabled={busy || !draft.trim()}>
+              {creating ? 'Adding…' : 'Add note'}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {error ? <p className="error-message">{error}</p> : null}
+
+      {isLoading ? <p className="notes-panel__empty">Loading notes…</p> : null}
+      {isError ? <p className="error-message">Failed to load notes</p> : null}
+      {!isLoading && !isError && !notes.length ? (
+        <p className="notes-panel__empty">{emptyMessage}</p>
+      ) : null}
+
+      {notes.length ? (
+        <ol className="notes-panel__list">
+          {notes.map((note) => {
+            const isEditing = editingId === note.id;
+            return (
+              <li key={note.id} className="notes-panel__item">
+                <div className="notes-panel__meta">
+                  <time dateTime={note.createdAt} title={dayjs(note.createdAt).format('MMMM D, YYYY h:mm A')}>
+                    {dayjs(note.createdAt).format('MMM D, YYYY · h:mm A')}
+                  </time>
+                  {!isEditing && !readOnly ? (
+                    <div className="notes-panel__item-actions">
+                      <button
+                        type="button"
+                        className="button-secondary"
+                        onClick={() => handleStartEdit(note)}
+                        disabled={busy}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className="button-danger"
+                        onClick={() => handleDelete(note)}
+                        disabled={busy}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  ) : null}
+                </div>
+                {isEditing ? (
+                  <>
+                    <textarea
+                      aria-label="Edit note"
+                      value={editingBody}
+                      onChange={(event) => setEditingBody(event.target.value)}
+                      rows={3}
+                      maxLength={NOTE_MAX_LENGTH}
+                      disabled={busy}
+                    />
+                    <div className="notes-panel__item-actions">
+                      <button
+                        type="button"
+                        className="button-secondary"
+                        onClick={() => setEditingId(null)}
+                        disabled={busy}
+                      >
+                        Cancel
+                      </button>
+                      <button type="button" onClick={() => handleSaveEdit(note)} disabled={busy}>
+                        {updating ? 'Saving…' : 'Save'}
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="notes-panel__body">{renderNoteBody(note.body)}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      ) : null}
+      <ConflictDialog {...conflictDialogProps} />
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import type { ProjectViewer } from '../types';
+import { getViewerName } from '../utils/presence';
+
+// Shown before the rest collapse into "+N"
+const MAX_VISIBLE_AVATARS = 4;
+
+const AVATAR_COLORS = ['#2563eb', '#7c3aed', '#db2777', '#ea580c', '#0d9488', '#65a30d', '#4f46e5'];
+
+function getInitials(name: string) {
+  const words = name.trim().split(/[\s._@-]+/).filter(Boolean);
+  const initials = words.length > 1 ? words[0][0] + words[1][0] : name.slice(0, 2);
+  return initials.toUpperCase();
+}
+
+// Same user, same color, in every tab and for everyone looking
+function getAvatarColor(username: string) {
+  const hash = Array.from(username).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) | 0, 0);
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
+
+interface PresenceAvatarProps {
+  viewer: ProjectViewer;
+  title: string;
+  size?: 'small' | 'regular';
+}
+
+function PresenceAvatar({ viewer, title, size = 'regular' }: PresenceAvatarProps) {
+  return (
+    <span
+      className={`presence-avatar${size === 'small' ? ' presence-avatar--small' : ''}`}
+      style={{ backgroundColor: getAvatarColor(viewer.username) }}
+      title={title}
+    >
+      {getInitials(getViewerName(viewer))}
+    </span>
+  );
+}
+
+interface PresenceAvatarsProps {
+  viewers: ProjectViewer[];
+  /** Resolves the task a viewer has open, for the avatar's tooltip. */
+  getTaskTitle: (taskId: string) => string | undefined;
+}
+
+// Everyone else who has the project open, for the project header
+export default function PresenceAvatars({ viewers, getTaskTitle }: PresenceAvatarsProps) {
+  if (!viewers.length) {
+    return null;
+  }
+
+  const visible = viewers.slice(0, MAX_VISIBLE_AVATARS);
+  const hidden = viewers.slice(MAX_VISIBLE_AVATARS);
+  const describe = (viewer: ProjectViewer) => {
+    const taskTitle = viewer.editingTaskId ? getTaskTitle(viewer.editingTaskId) : undefined;
+    return taskTitle ? `${getViewerName(viewer)} – editing "${taskTitle}"` : getViewerName(viewer);
+  };
+  const label = `Also viewing: ${viewers.map(getViewerName).join(', ')}`;
+
+  return (
+    <div className="presence-avatars" role="group" aria-label={label}>
+      {visible.map((viewer) => (
+        <PresenceAvatar key={viewer.sessionId} viewer={viewer} title={describe(viewer)} />
+      ))}
+      {hidden.length ? (
+        <span className="presence-avatar presence-avatar--more" title={hidden.map(describe).join('\n')}>
+          +{hidden.length}
+        </span>
+      ) : null}
+    </div>
+  );
+}
+
+interface TaskEditorsMarkerProps {
+  editors: ProjectViewer[];
+}
+
+// Marks a timeline row whose task someone else has open in the task form
+export function TaskEditorsMarker({ editors }: TaskEditorsMarkerProps) {
+  if (!editors.length) {
+    return null;
+  }
+
+  const names = editors.map(getViewerName).join(', ');
+  const title = `${names} ${editors.length === 1 ? 'is' : 'are'} editing this task`;
+
+  return (
+    <span className="presence-marker" role="img" aria-label={title}>
+      {editors.map((viewer) => (
+        <PresenceAvatar key={viewer.sessionId} viewer={viewer} title={title} size="small" />
+      ))}
+    </span>
+  );
+}
@@ -6,6 +6,8 @@ import type { ProjectCreateInput, ProjectRes } from '../types';
 import { createProject, importProject, listProjects } from '../api/projects';
 import { queryClient } from '../queryClient';
 import DeleteProjectModal from './DeleteProjectModal';
+import { getErrorMessage, resolveFormErrors, type FieldErrors } from '../api/errors';
+import { getProjectPermissions } from '../utils/permissions';
 
 type ProjectModalMode = 'create' | 'edit';
 
@@ -39,6 +41,9 @@ type FormState = {
   importActions: boolean;
 };
 
+// Request fields that have an input of their own; server errors for any other field go to the banner
+const PROJECT_FORM_FIELDS = ['name', 'newProjectName', 'description', 'startDate'] as const;
+
 const createInitialState = (): FormState => ({
   name: '',
   description: '',
@@ -89,6 +94,7 @@ export default function ProjectModal({
   const [form, setForm] = useState<FormState>(() => createInitialState());
   const [formError, setFormError] = useState<string | null>(null);
   const [dateError, setDateError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [availableProjects, setAvailableProjects] = useState<ProjectRes[]>([]);
@@ -117,6 +123,7 @@ export default function ProjectModal({
     }
     if (isOpen) {
       setFormError(null);
+      setFieldErrors({});
       setDeleteError(null);
       setShowDeleteConfirm(false);
     }
@@ -153,7 +160,10 @@ export default function ProjectModal({
       setLoadingProjects(true);
       listProjects({ size: 100 })
         .then((response) => {
-          setAvailableProjects(response.content);
+          // Only projects the user may copy from; viewers can't import
+          setAvailableProjects(
+            response.content.filter((candidate) => getProjectPermissions(candidate).canImport),
+          );
         })
         .catch((error) => {
           console.error('Failed to load projects:', error);
@@ -177,6 +187,7 @@ export default function ProjectModal({
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setFormError(null);
+    setFieldErrors({});
 
     // Check for real-time date validation errors
     if (dateError) {
@@ -238,7 +249,13 @@ export default function ProjectModal({
       }
       onClose();
     } catch (error) {
-      setFormError(error instanceof Error ? error.message : 'Failed to save project');
+      const resolved = resolveFormErrors(error, PROJECT_FORM_FIELDS, 'Failed to save project');
+      // The import endpoint calls the name `newProjectName`
+      if (resolved.fieldErrors.newProjectName) {
+        resolved.fieldErrors.name = resolved.fieldErrors.newProjectName;
+      }
+      setFieldErrors(resolved.fieldErrors);
+      setFormError(resolved.formError);
     }
   };
 
@@ -258,7 +275,7 @@ export default function ProjectModal({
     try {
       await onDelete(project);
     } catch (error) {
-      setDeleteError(error instanceof Error ? error.message : 'Failed to delete project');
+      setDeleteError(getErrorMessage(error, 'Failed to delete project'));
     }
   };
 
@@ -343,7 +360,9 @@ export default function ProjectModal({
                 required
                 maxLength={160}
                 disabled={submitting}
+                aria-invalid={Boolean(fieldErrors.name)}
               />
+              {fieldErrors.name ? <p className="field-error">{fieldErrors.name}</p> : null}
             </div>
           <div className="field">
             <label htmlFor="project-description-modal">Description</label>
@@ -361,7 +380,11 @@ export default function ProjectModal({
                 maxLength={10000}
                 rows={3}
                 disabled={submitting}
+                aria-invalid={Boolean(fieldErrors.description)}
               />
+              {fieldErrors.description ? (
+                <p className="field-error">{fieldErrors.description}</p>
+              ) : null}
             </div>
             
             {/* Start date field - Only show when not importing or in edit mode */}
@@ -384,14 +407,15 @@ export default function ProjectModal({
                   required
                   disabled={submitting || mode === 'edit'}
                   style={{
-                    borderColor: dateError ? '#dc2626' : undefined,
+                    borderColor: dateError || fieldErrors.startDate ? '#dc2626' : undefined,
                   }}
+                  aria-invalid={Boolean(dateError || fieldErrors.startDate)}
                 />
-                {dateError && (
+                {dateError || fieldErrors.startDate ? (
                   <div style={{ color: '#dc2626', fontSize: '14px', marginTop: '4px' }}>
-                    {dateError}
+                    {dateError || fieldErrors.startDate}
                   </div>
-                )}
+                ) : null}
               </div>
             )}
             
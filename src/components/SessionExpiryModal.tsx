@@ -0,0 +1,66 @@
+import { useSessionKeepAlive } from '../hooks/useSessionKeepAlive';
+import { expireSession } from '../utils/auth';
+
+function formatCountdown(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Keeps the session alive in the background and warns before it ends. Rendered once inside the
+ * protected layout; it stays invisible until the warning is due.
+ */
+export default function SessionExpiryModal() {
+  const { session, showWarning, msLeft, extend, extending, extendError, dismiss } =
+    useSessionKeepAlive();
+
+  if (!session || !showWarning) {
+    return null;
+  }
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div
+        className="modal"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-expiry-modal-title"
+        aria-describedby="session-expiry-modal-description"
+      >
+        <div className="modal-header">
+          <h3 id="session-expiry-modal-title">Your session is about to end</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={dismiss}
+            aria-label="Dismiss session warning"
+            disabled={extending}
+          >
+            ×
+          </button>
+        </div>
+        <div className="modal-content">
+          <p id="session-expiry-modal-description">
+            You will be signed out in <strong>{formatCountdown(msLeft)}</strong>.{' '}
+            {session.canRefresh
+              ? 'Stay signed in to keep working without losing unsaved changes.'
+              : 'Save your work, then sign in again to continue.'}
+          </p>
+          {extendError ? <p className="error-message">{extendError}</p> : null}
+        </div>
+        <div className="modal-actions">
+          <button type="button" className="button-secondary" onClick={expireSession} disabled={extending}>
+            Sign in again
+          </button>
+          {session.canRefresh ? (
+            <button type="button" onClick={() => void extend()} disabled={extending}>
+              {extending ? 'Extending…' : 'Stay signed in'}
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
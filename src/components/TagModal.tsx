@@ -4,6 +4,7 @@ import customParseFormat from 'dayjs/plugin/customParseFormat';
 import isSameOrAfter from 'dayjs/plugin/isSameOrAfter';
 import { z } from 'zod';
 import type { ProjectRes, TagCreateInput, TagRes } from '../types';
+import { resolveFormErrors, type FieldErrors } from '../api/errors';
 
 dayjs.extend(customParseFormat);
 dayjs.extend(isSameOrAfter);
@@ -72,6 +73,9 @@ const toDateInputValue = (value: string) => {
   return parsed.isValid() ? parsed.format('YYYY-MM-DD') : '';
 };
 
+// Request fields that have an input of their own; server errors for any other field go to the banner
+const TAG_FORM_FIELDS = ['title', 'description', 'startAt', 'endAt', 'color'] as const;
+
 const createInitialState = (projectId?: string, tag?: TagRes | null): FormState => {
   if (tag) {
     return {
@@ -118,6 +122,7 @@ export default function TagModal({
   const [form, setForm] = useState<FormState>(() => createInitialState(defaultProjectId, tag));
   const [formError, setFormError] = useState<string | null>(null);
   const [dateErrors, setDateErrors] = useState<{startAt?: string | null; endAt?: string | null}>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   useEffect(() => {
     if (!isOpen) {
@@ -126,6 +131,7 @@ export default function TagModal({
 
     setForm(createInitialState(defaultProjectId, tag));
     setFormError(null);
+    setFieldErrors({});
   }, [defaultProjectId, isOpen, mode, tag]);
 
   // Date validation helpers
@@ -236,6 +242,7 @@ export default function TagModal({
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setFormError(null);
+    setFieldErrors({});
 
     // Check for real-time date validation errors
     const hasDateErrors = Object.values(dateErrors).some(error => error);
@@ -323,7 +330,9 @@ export default function TagModal({
       await onSubmit(payload);
       onClose();
     } catch (error) {
-      setFormError(error instanceof Error ? error.message : 'Failed to save tag');
+      const resolved = resolveFormErrors(error, TAG_FORM_FIELDS, 'Failed to save tag');
+      setFieldErrors(resolved.fieldErrors);
+      setFormError(resolved.formError);
     }
   };
 
@@ -380,7 +389,9 @@ export default function TagModal({
               maxLength={160}
               required
               disabled={submitting}
+              aria-invalid={Boolean(fieldErrors.title)}
             />
+            {fieldErrors.title ? <p className="field-error">{fieldErrors.title}</p> : null}
           </div>
           <div className="field">
             <label htmlFor="tag-description-modal">Description</label>
@@ -398,7 +409,11 @@ export default function TagModal({
               rows={3}
               maxLength={10000}
               disabled={submitting}
+              aria-invalid={Boolean(fieldErrors.description)}
             />
+            {fieldErrors.description ? (
+              <p className="field-error">{fieldErrors.description}</p>
+            ) : null}
           </div>
           <div className="field">
             <label htmlFor="tag-start-modal">Start</label>
@@ -411,14 +426,15 @@ export default function TagModal({
               required
               disabled={submitting}
               style={{
-                borderColor: dateErrors.startAt ? '#dc2626' : undefined,
+                borderColor: dateErrors.startAt || fieldErrors.startAt ? '#dc2626' : undefined,
               }}
+              aria-invalid={Boolean(dateErrors.startAt || fieldErrors.startAt)}
             />
-            {dateErrors.startAt && (
+            {dateErrors.startAt || fieldErrors.startAt ? (
               <div style={{ color: '#dc2626', fontSize: '14px', marginTop: '4px' }}>
-                {dateErrors.startAt}
+                {dateErrors.startAt || fieldErrors.startAt}
               </div>
-            )}
+            ) : null}
           </div>
           <div className="field">
             <label htmlFor="tag-end-modal">End</label>
@@ -431,14 +447,15 @@ export default function TagModal({
               required
               disabled={submitting}
               style={{
-                borderColor: dateErrors.endAt ? '#dc2626' : undefined,
+                borderColor: dateErrors.endAt || fieldErrors.endAt ? '#dc2626' : undefined,
               }}
+              aria-invalid={Boolean(dateErrors.endAt || fieldErrors.endAt)}
             />
-            {dateErrors.endAt && (
+            {dateErrors.endAt || fieldErrors.endAt ? (
               <div style={{ color: '#dc2626', fontSize: '14px', marginTop: '4px' }}>
-                {dateErrors.endAt}
+                {dateErrors.endAt || fieldErrors.endAt}
               </div>
-            )}
+            ) : null}
           </div>
           <div className="field">
             <label htmlFor="tag-color-modal">Color</label>
@@ -467,6 +484,7 @@ export default function TagModal({
                 }}
               />
             </div>
+            {fieldErrors.color ? <p className="field-error">{fieldErrors.color}</p> : null}
           </div>
           {formError ? <p className="error-message">{formError}</p> : null}
           <div className="modal-actions">
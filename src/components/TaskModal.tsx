@@ -4,8 +4,19 @@ import customParseFormat from 'dayjs/plugin/customParseFormat';
 import utc from 'dayjs/plugin/utc';
 import isSameOrAfter from 'dayjs/plugin/isSameOrAfter';
 import { z } from 'zod';
-import type { NoteAction, ProjectRes, TaskCreateInput, TaskRes, TaskWithNoteInput } from '../types';
-import { toBoolean } from '../utils/toBoolean';
+import type {
+  NoteAction,
+  ProjectRes,
+  TaskCreateInput,
+  TaskDependency,
+  TaskDependencyType,
+  TaskRes,
+  TaskWithNoteInput,
+} from '../types';
+import { DEPENDENCY_TYPE_LABELS, wouldCreateCycle } from '../utils/dependencies';
+import { resolveFormErrors, type FieldErrors } from '../api/errors';
+import NotesPanel from './NotesPanel';
+import { getNotesPanelInputId, NOTE_MAX_LENGTH } from '../utils/notes';
 
 dayjs.extend(customParseFormat);
 dayjs.extend(utc);
@@ -72,8 +83,12 @@ interface FormState {
   hasNote: boolean;
   note: string;
   color: string;
+  dependencies: TaskDependency[];
 }
 
+// Request fields that have an input of their own; server errors for any other field go to the banner
+const TASK_FORM_FIELDS = ['title', 'description', 'startAt', 'endAt', 'color', 'dependencies'] as const;
+
 const formatDateLocal = (value: string) => {
   const parsed = dayjs(value);
   return parsed.isValid() ? parsed.format('YYYY-MM-DD') : '';
@@ -87,10 +102,11 @@ const createInitialState = (projectId?: string, task?: TaskRes | null): FormStat
       description: task.description ?? '',
       startAt: formatDateLocal(task.startAt),
       endAt: formatDateLocal(task.endAt),
-      isActivity: toBoolean(task.isActivity),
-      hasNote: Boolean(task.note),
-      note: task.note?.body ?? '',
+      isActivity: task.isActivity ?? false,
+      hasNote: false,
+      note: '',
       color: task.color ?? '#3b82f6', // Default blue color
+      dependencies: task.dependencies ?? [],
     };
   }
 
@@ -104,6 +120,7 @@ const createInitialState = (projectId?: string, task?: TaskRes | null): FormStat
     hasNote: false,
     note: '',
     color: '#3b82f6', // Default blue color
+    dependencies: [],
   };
 };
 
@@ -118,6 +135,10 @@ export interface TaskModalProps {
   onClose: () => void;
   mode?: TaskModalMode;
   task?: TaskRes | null;
+  /** Other tasks of the project, offered as predecessors in the dependency picker. */
+  tasks?: TaskRes[];
+  /** Names of other people who have this task open in the form right now. */
+  otherEditors?: string[];
 }
 
 export default function TaskModal({
@@ -129,10 +150,13 @@ export default function TaskModal({
   onClose,
   mode = 'create',
   task,
+  tasks = [],
+  otherEditors = [],
 }: TaskModalProps) {
   const [form, setForm] = useState<FormState>(() => createInitialState(defaultProjectId, task));
   const [formError, setFormError] = useState<string | null>(null);
   const [dateErrors, setDateErrors] = useState<{startAt?: string | null; endAt?: string | null}>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   useEffect(() => {
     if (!isOpen) {
@@ -148,6 +172,7 @@ export default function TaskModal({
 
     setForm(initialState);
     setFormError(null);
+    setFieldErrors({});
   }, [defaultProjectId, isOpen, mode, task]);
 
   // Date validation helpers
@@ -220,6 +245,40 @@ export default function TaskModal({
 
   const modalTitle = mode === 'edit' ? 'Edit Task' : 'Add Task';
 
+  const predecessorOptions = useMemo(
+    () =>
+      tasks.filter((candidate) => {
+        if (!task) {
+          return true;
+        }
+        return !wouldCreateCycle(tasks, task.id, candidate.id);
+      }),
+    [task, tasks],
+  );
+
+  const handleAddDependency = () => {
+    setForm((prev) => ({
+      ...prev,
+      dependencies: [...prev.dependencies, { predecessorId: '', type: 'FS' }],
+    }));
+  };
+
+  const handleDependencyChange = (index: number, changes: Partial<TaskDependency>) => {
+    setForm((prev) => ({
+      ...prev,
+      dependencies: prev.dependencies.map((dependency, dependencyIndex) =>
+        dependencyIndex === index ? { ...dependency, ...changes } : dependency,
+      ),
+    }));
+  };
+
+  const handleRemoveDependency = (index: number) => {
+    setForm((prev) => ({
+      ...prev,
+      dependencies: prev.dependencies.filter((_, dependencyIndex) => dependencyIndex !== index),
+    }));
+  };
+
   if (!isOpen) {
     return null;
   }
@@ -255,6 +314,7 @@ export default function TaskModal({
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setFormError(null);
+    setFieldErrors({});
 
     // Check for real-time date validation errors
     const hasDateErrors = Object.values(dateErrors).some(error => error);
@@ -330,8 +390,21 @@ export default function TaskModal({
       return;
     }
 
+    if (form.dependencies.some((dependency) => !dependency.predecessorId)) {
+      setFormError('Select a task for each dependency or remove it');
+      return;
+    }
+
+    const dependencies = form.dependencies.filter(
+      (dependency, index, all) =>
+        all.findIndex(
+          (other) => other.predecessorId === dependency.predecessorId && other.type === dependency.type,
+        ) === index,
+    );
+
     const payload: TaskCreateInput = {
       ...rest,
+      dependencies,
       duration,
       startAt: startDate.toISOString(),
       endAt: endDate.toISOString(),
@@ -353,7 +426,8 @@ export default function TaskModal({
 
     const trimmedNote = form.note.trim();
 
-    if (form.hasNote) {
+    // Existing tasks manage their notes in the notes panel; only a new task sends its first note
+    if (mode === 'create' && form.hasNote) {
       if (!trimmedNote) {
         setFormError('Provide a note');
         return;
@@ -364,17 +438,16 @@ export default function TaskModal({
       }
     }
 
-    const noteAction = determineNoteAction({
-      hasNote: form.hasNote,
-      note: trimmedNote,
-      existingNote: task?.note ?? null,
-    });
+    const noteAction: NoteAction =
+      mode === 'create' && form.hasNote ? { type: 'create', body: trimmedNote } : { type: 'none' };
 
     try {
       await onSubmit({ task: payload, noteAction });
       onClose();
     } catch (error) {
-      setFormError(error instanceof Error ? error.message : 'Failed to save task');
+      const resolved = resolveFormErrors(error, TASK_FORM_FIELDS, 'Failed to save task');
+      setFieldErrors(resolved.fieldErrors);
+      setFormError(resolved.formError);
     }
   };
 
@@ -400,6 +473,12 @@ export default function TaskModal({
           </button>
         </div>
         <form onSubmit={handleSubmit} noValidate>
+          {otherEditors.length ? (
+            <p className="presence-warning" role="status">
+              {otherEditors.join(', ')} {otherEditors.length === 1 ? 'is' : 'are'} also editing this
+              task. If you both save, you'll be asked which changes to keep.
+            </p>
+          ) : null}
           <div className="field">
             <label htmlFor="task-project-modal">Project</label>
             <div 
@@ -431,7 +510,9 @@ export default function TaskModal({
               maxLength={160}
               required
               disabled={submitting}
+              aria-invalid={Boolean(fieldErrors.title)}
             />
+            {fieldErrors.title ? <p className="field-error">{fieldErrors.title}</p> : null}
           </div>
           <div className="field">
             <label htmlFor="task-description-modal">Description</label>
@@ -449,7 +530,11 @@ export default function TaskModal({
               rows={3}
               maxLength={10000}
               disabled={submitting}
+              aria-invalid={Boolean(fieldErrors.description)}
             />
+            {fieldErrors.description ? (
+              <p className="field-error">{fieldErrors.description}</p>
+            ) : null}
           </div>
           <div className="field">
             <label htmlFor="task-start-modal">Start</label>
@@ -462,14 +547,15 @@ export default function TaskModal({
               required
               disabled={submitting}
               style={{
-                borderColor: dateErrors.startAt ? '#dc2626' : undefined,
+                borderColor: dateErrors.startAt || fieldErrors.startAt ? '#dc2626' : undefined,
               }}
+              aria-invalid={Boolean(dateErrors.startAt || fieldErrors.startAt)}
             />
-            {dateErrors.startAt && (
+            {dateErrors.startAt || fieldErrors.startAt ? (
               <div style={{ color: '#dc2626', fontSize: '14px', marginTop: '4px' }}>
-                {dateErrors.startAt}
+                {dateErrors.startAt || fieldErrors.startAt}
               </div>
-            )}
+            ) : null}
           </div>
           <div className="field">
             <label htmlFor="task-end-modal">End</label>
@@ -482,14 +568,15 @@ export default function TaskModal({
               required
               disabled={submitting}
               style={{
-                borderColor: dateErrors.endAt ? '#dc2626' : undefined,
+                borderColor: dateErrors.endAt || fieldErrors.endAt ? '#dc2626' : undefined,
               }}
+              aria-invalid={Boolean(dateErrors.endAt || fieldErrors.endAt)}
             />
-            {dateErrors.endAt && (
+            {dateErrors.endAt || fieldErrors.endAt ? (
               <div style={{ color: '#dc2626', fontSize: '14px', marginTop: '4px' }}>
-                {dateErrors.endAt}
+                {dateErrors.endAt || fieldErrors.endAt}
               </div>
-            )}
+            ) : null}
           </div>
           <div className="field">
             <label htmlFor="task-color-modal">Color</label>
@@ -518,6 +605,66 @@ export default function TaskModal({
                 }}
               />
             </div>
+            {fieldErrors.color ? <p className="field-error">{fieldErrors.color}</p> : null}
+          </div>
+          <div className="field">
+            <label htmlFor="task-dependency-0">Depends on</label>
+            {form.dependencies.map((dependency, index) => (
+              <div key={index} className="dependency-row">
+                <select
+                  id={`task-dependency-${index}`}
+                  aria-label={`Predecessor ${index + 1}`}
+                  value={dependency.predecessorId}
+                  onChange={(event) =>
+                    handleDependencyChange(index, { predecessorId: event.target.value })
+                  }
+                  disabled={submitting}
+                >
+                  <option value="">Select a task</option>
+                  {predecessorOptions.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.title}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label={`Dependency type ${index + 1}`}
+                  value={dependency.type}
+                  onChange={(event) =>
+                    handleDependencyChange(index, {
+                      type: event.target.value as TaskDependencyType,
+                    })
+                  }
+                  disabled={submitting}
+                >
+                  {(Object.keys(DEPENDENCY_TYPE_LABELS) as TaskDependencyType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {DEPENDENCY_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="button-secondary dependency-row__remove"
+                  onClick={() => handleRemoveDependency(index)}
+                  aria-label={`Remove dependency ${index + 1}`}
+                  disabled={submitting}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="button-secondary"
+              onClick={handleAddDependency}
+              disabled={submitting || !predecessorOptions.length}
+            >
+              Add dependency
+            </button>
+            {fieldErrors.dependencies ? (
+              <p className="field-error">{fieldErrors.dependencies}</p>
+            ) : null}
           </div>
           {/* <div className="field">
             <label>
@@ -535,23 +682,32 @@ export default function TaskModal({
               Activity task
             </label>
           </div> */}
-          <div className="field">
-            <label>
-              <input
-                type="checkbox"
-                checked={form.hasNote}
-                onChange={(event) =>
-                  setForm((prev) => ({
-                    ...prev,
-                    hasNote: event.target.checked,
-                  }))
-                }
-                disabled={submitting}
-              />{' '}
-              Add note
-            </label>
-          </div>
-          {form.hasNote ? (
+          {mode === 'edit' && task ? (
+            <div className="field">
+              <label htmlFor={getNotesPanelInputId({ taskId: task.id, projectId: task.projectId })}>
+                Notes
+              </label>
+              <NotesPanel owner={{ taskId: task.id, projectId: task.projectId }} />
+            </div>
+          ) : (
+            <div className="field">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={form.hasNote}
+                  onChange={(event) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      hasNote: event.target.checked,
+                    }))
+                  }
+                  disabled={submitting}
+                />{' '}
+                Add note
+              </label>
+            </div>
+          )}
+          {mode === 'create' && form.hasNote ? (
             <div className="field">
               <label htmlFor="task-note-modal">Note</label>
               <textarea
@@ -582,36 +738,3 @@ export default function TaskModal({
     </div>
   );
 }
-
-const NOTE_MAX_LENGTH = 20000;
-
-function determineNoteAction({
-  hasNote,
-  note,
-  existingNote,
-}: {
-  hasNote: boolean;
-  note: string;
-  existingNote: TaskRes['note'] | null;
-}): NoteAction {
-  if (!hasNote) {
-    if (existingNote) {
-      return { type: 'delete', id: existingNote.id };
-    }
-    return { type: 'none' };
-  }
-
-  if (!note) {
-    return { type: 'none' };
-  }
-
-  if (!existingNote) {
-    return { type: 'create', body: note };
-  }
-
-  if (existingNote.body !== note) {
-    return { type: 'update', id: existingNote.id, body: note };
-  }
-
-  return { type: 'none' };
-}
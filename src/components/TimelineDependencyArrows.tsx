@@ -0,0 +1,168 @@
+import { useLayoutEffect, useState, type RefObject } from 'react';
+import type { DependencyLink } from '../utils/dependencies';
+import {
+  columnContainsDay,
+  getColumnSpan,
+  type DayRange,
+  type TimelineColumn,
+} from '../utils/timeline';
+
+interface GridGeometry {
+  width: number;
+  height: number;
+  headerHeight: number;
+  rowHeaderWidth: number;
+}
+
+export interface TimelineDependencyArrowsProps {
+  tableRef: RefObject<HTMLTableElement>;
+  columns: TimelineColumn[];
+  ranges: Map<string, DayRange>;
+  links: DependencyLink[];
+  /** Position of every timeline row; rows outside the virtualized window are not in the DOM. */
+  rowIndex: Map<string, number>;
+  rowHeight: number;
+  columnWidth: number;
+  /** Successors whose position is a not-yet-saved preview; their arrows are drawn dashed. */
+  previewIds?: Set<string>;
+}
+
+// Horizontal run before an arrow turns, so it clears the end of the predecessor bar.
+const ELBOW_OFFSET = 8;
+
+/**
+ * Draws dependency arrows on top of the timeline table. Only the header is measured; row and
+ * column positions follow from the fixed grid sizes, so arrows to off-screen rows still line up.
+ */
+export default function TimelineDependencyArrows({
+  tableRef,
+  columns,
+  ranges,
+  links,
+  rowIndex,
+  rowHeight,
+  columnWidth,
+  previewIds,
+}: TimelineDependencyArrowsProps) {
+  const [geometry, setGeometry] = useState<GridGeometry | null>(null);
+
+  useLayoutEffect(() => {
+    const table = tableRef.current;
+    if (!table || !links.length) {
+      setGeometry(null);
+      return undefined;
+    }
+
+    const measure = () => {
+      setGeometry({
+        width: table.offsetWidth,
+        height: table.offsetHeight,
+        headerHeight: table.tHead?.offsetHeight ?? 0,
+        rowHeaderWidth:
+          table.querySelector<HTMLTableCellElement>('.project-grid__header--title')?.offsetWidth ?? 0,
+      });
+    };
+
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') {
+      return undefined;
+    }
+    const observer = new ResizeObserver(measure);
+    observer.observe(table);
+    return () => observer.disconnect();
+  }, [tableRef, columns, links, rowIndex]);
+
+  if (!geometry || !links.length) {
+    return null;
+  }
+
+  const dayEdgeX = (day: number, edge: 'start' | 'end') => {
+    const columnIndex = columns.findIndex((column) => columnContainsDay(column, day));
+    if (columnIndex < 0) {
+      return null;
+    }
+    const column = columns[columnIndex];
+    const offset = day - column.startDay + (edge === 'end' ? 1 : 0);
+    return geometry.rowHeaderWidth + (columnIndex + offset / getColumnSpan(column)) * columnWidth;
+  };
+
+  const rowCenterY = (entryId: string) => {
+    const index = rowIndex.get(entryId);
+    return index === undefined ? null : geometry.headerHeight + (index + 0.5) * rowHeight;
+  };
+
+  const paths = links.flatMap((link) => {
+    const predecessorRange = ranges.get(link.predecessorId);
+    const successorRange = ranges.get(link.successorId);
+    const y1 = rowCenterY(link.predecessorId);
+    const y2 = rowCenterY(link.successorId);
+    if (!predecessorRange || !successorRange || y1 === null || y2 === null) {
+      return [];
+    }
+
+    const x1 =
+      link.type === 'SS'
+        ? dayEdgeX(predecessorRange.start, 'start')
+        : dayEdgeX(predecessorRange.end, 'end');
+    const x2 =
+      link.type === 'FF'
+        ? dayEdgeX(successorRange.end, 'end')
+        : dayEdgeX(successorRange.start, 'start');
+    if (x1 === null || x2 === null) {
+      return [];
+    }
+
+    const entersFromLeft = link.type !== 'FF';
+    const approachX = entersFromLeft ? x2 - ELBOW_OFFSET : x2 + ELBOW_OFFSET;
+
+    const d =
+      entersFromLeft && approachX >= x1 + ELBOW_OFFSET
+        ? `M ${x1} ${y1} H ${approachX} V ${y2} H ${x2}`
+        : `M ${x1} ${y1} H ${x1 + ELBOW_OFFSET} V ${(y1 + y2) / 2} H ${approachX} V ${y2} H ${x2}`;
+
+    return [
+      {
+        key: link.key,
+        d,
+        isPreview: previewIds?.has(link.successorId) ?? false,
+      },
+    ];
+  });
+
+  return (
+    <svg
+      className="timeline-dependencies"
+      width={geometry.width}
+      height={geometry.height}
+      aria-hidden="true"
+    >
+      <defs>
+        <marker
+          id="timeline-dependency-arrowhead"
+          viewBox="0 0 8 8"
+          refX="7"
+          refY="4"
+          markerWidth="7"
+          markerHeight="7"
+          orient="auto-start-reverse"
+        >
+          <path className="timeline-dependencies__arrowhead" d="M 0 0 L 8 4 L 0 8 z" />
+        </marker>
+      </defs>
+      {paths.map((path) => (
+        <path
+          key={path.key}
+          className={[
+            'timeline-dependencies__path',
+            path.isPreview ? 'timeline-dependencies__path--preview' : '',
+          ]
+            .filter(Boolean)
+            .join(' ')}
+          d={path.d}
+          markerEnd="url(#timeline-dependency-arrowhead)"
+        />
+      ))}
+    </svg>
+  );
+}
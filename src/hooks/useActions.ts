@@ -1,86 +1,198 @@
-import { useMutation, useQuery } from '@tanstack/react-query';
-import { createAction, deleteAction, listActions, updateAction as updateActionApi } from '../api/actions';
+import {
+  useMutation,
+  useQueries,
+  useQuery,
+  type QueryFilters,
+  type UseQueryResult,
+} from '@tanstack/react-query';
+import {
+  createAction,
+  deleteAction,
+  listActions,
+  listAllTaskActions,
+  updateAction as updateActionApi,
+} from '../api/actions';
 import type { ActionRes, ActionCreateInput, ActionUpdateInput, Page } from '../types';
 import { queryClient } from '../queryClient';
+import {
+  createOptimisticId,
+  findCachedItem,
+  patchCachedLists,
+  replaceOptimisticItem,
+  restoreCacheSnapshot,
+  updateCachedLists,
+  type CacheSnapshot,
+  type RollbackListener,
+} from '../utils/optimisticCache';
+import { createRequestLimiter } from '../utils/requestLimiter';
 
 export function useActions(taskId?: string) {
   const queryKey = ['actions', { taskId }];
 
   const query = useQuery({
     queryKey,
-    queryFn: () => listActions({ taskId }),
+    queryFn: ({ signal }) => listActions({ taskId, signal }),
     enabled: Boolean(taskId),
     select: (data: Page<ActionRes>): Page<ActionRes> => ({
       ...data,
-      content: [...data.content].sort(
-        (actionA, actionB) =>
-          new Date(actionA.createdAt).getTime() - new Date(actionB.createdAt).getTime(),
-      ),
+      content: [...data.content].sort(byCreatedAt),
     }),
   });
 
+  return {
+    ...query,
+    ...useActionMutations(),
+  };
+}
+
+interface UseActionMutationsOptions {
+  onRollback?: RollbackListener;
+}
+
+const ALL_ACTION_LISTS: QueryFilters = { queryKey: ['actions'] };
+
+// The lists a new action of `taskId` belongs in: the task's own list and its timeline query
+export function actionListsOfTask(taskId: string): QueryFilters {
+  return {
+    queryKey: ['actions'],
+    predicate: ({ queryKey }) => {
+      const [, scope, timeline] = queryKey as [string, unknown, { taskId?: string } | undefined];
+      const filter = scope === 'all' ? timeline : (scope as { taskId?: string } | undefined);
+      return filter?.taskId === taskId;
+    },
+  };
+}
+
+function describeDay(action: Pick<ActionRes, 'day'> | undefined) {
+  return action ? ` on Day ${action.day}` : '';
+}
+
+// Create, update and delete actions in the per-task lists and the timeline queries alike.
+// Changes show up immediately and are reverted if the request fails.
+export function useActionMutations({ onRollback }: UseActionMutationsOptions = {}) {
+  const rollback = (
+    error: unknown,
+    context: { snapshot: CacheSnapshot; undone: string } | undefined,
+  ) => {
+    if (!context) {
+      return;
+    }
+    restoreCacheSnapshot(context.snapshot);
+    onRollback?.(context.undone, error);
+  };
+
+  const invalidateActions = () => queryClient.invalidateQueries(ALL_ACTION_LISTS);
+
   const create = useMutation({
     mutationFn: createAction,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['actions'] });
+    onMutate: async (input: ActionCreateInput) => {
+      const now = new Date().toISOString();
+      const optimisticAction: ActionRes = {
+        ...input,
+        id: createOptimisticId(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      const snapshot = await patchCachedLists<ActionRes>(
+        actionListsOfTask(input.taskId),
+        (actions) => [...actions, optimisticAction],
+      );
+      return {
+        snapshot,
+        undone: `The action${describeDay(input)} was removed.`,
+        optimisticId: optimisticAction.id,
+      };
     },
+    // Swaps the placeholder, whose `updatedAt` is the client's clock, for the action as saved
+    onSuccess: (created, _input, context) =>
+      replaceOptimisticItem<ActionRes>(ALL_ACTION_LISTS, context?.optimisticId, created),
+    onError: (error, _input, context) => rollback(error, context),
+    onSettled: invalidateActions,
   });
 
   const update = useMutation({
     mutationFn: ({ id, input }: { id: string; input: ActionUpdateInput }) =>
       updateActionApi(id, input),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['actions'] });
+    onMutate: async ({ id, input }) => {
+      const action = findCachedItem<ActionRes>(['actions'], id);
+      const snapshot = await patchCachedLists<ActionRes>(ALL_ACTION_LISTS, (actions) =>
+        actions.map((item) =>
+          // Only the server issues versions: an edit made before the refetch must send the real one
+          item.id === id ? { ...item, ...input, updatedAt: item.updatedAt } : item,
+        ),
+      );
+      return { snapshot, undone: `Changes to the action${describeDay(action)} were undone.` };
     },
+    // The saved action carries the server's new `updatedAt`, which the next edit has to send
+    onSuccess: (saved) =>
+      updateCachedLists<ActionRes>(ALL_ACTION_LISTS, (actions) =>
+        actions.map((item) => (item.id === saved.id ? { ...item, ...saved } : item)),
+      ),
+    onError: (error, _input, context) => rollback(error, context),
+    onSettled: invalidateActions,
   });
 
-  const deleteAction_ = useMutation({
+  const remove = useMutation({
     mutationFn: deleteAction,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['actions'] });
+    onMutate: async (id: string) => {
+      const action = findCachedItem<ActionRes>(['actions'], id);
+      const snapshot = await patchCachedLists<ActionRes>(ALL_ACTION_LISTS, (actions) =>
+        actions.filter((item) => item.id !== id),
+      );
+      return { snapshot, undone: `The action${describeDay(action)} was put back.` };
     },
+    onError: (error, _id, context) => rollback(error, context),
+    onSettled: invalidateActions,
   });
 
   return {
-    ...query,
     createAction: create.mutateAsync,
     creating: create.isPending,
     updateAction: update.mutateAsync,
     updating: update.isPending,
-    deleteAction: deleteAction_.mutateAsync,
-    deleting: deleteAction_.isPending,
+    deleteAction: remove.mutateAsync,
+    deleting: remove.isPending,
   };
 }
 
-// Hook to get all actions for multiple tasks (used for timeline display)
-export function useAllActions(taskIds: string[]) {
-  const queryKey = ['actions', 'all', { taskIds: taskIds.sort() }];
+// Task action lists loading at once across the timeline; the others wait for a free slot
+const MAX_PARALLEL_ACTION_REQUESTS = 6;
+const limitActionRequests = createRequestLimiter(MAX_PARALLEL_ACTION_REQUESTS);
 
-  const query = useQuery({
-    queryKey,
-    queryFn: async () => {
-      if (taskIds.length === 0) {
-        return { content: [], totalElements: 0, totalPages: 0, size: 0, number: 0, numberOfElements: 0 };
-      }
-      
-      // Fetch actions for all tasks
-      const allActions: ActionRes[] = [];
-      for (const taskId of taskIds) {
-        const result = await listActions({ taskId, size: 1000 });
-        allActions.push(...result.content);
-      }
-      
-      return {
-        content: allActions.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()),
-        totalElements: allActions.length,
-        totalPages: 1,
-        size: allActions.length,
-        number: 0,
-        numberOfElements: allActions.length,
-      };
-    },
-    enabled: taskIds.length > 0,
-  });
+function byCreatedAt(actionA: ActionRes, actionB: ActionRes) {
+  return new Date(actionA.createdAt).getTime() - new Date(actionB.createdAt).getTime();
+}
+
+function combineTaskActions(results: UseQueryResult<ActionRes[]>[]) {
+  const content = results.flatMap((result) => result.data ?? []).sort(byCreatedAt);
+  const page: Page<ActionRes> = {
+    content,
+    totalElements: content.length,
+    totalPages: 1,
+    size: content.length,
+    number: 0,
+    numberOfElements: content.length,
+  };
+
+  return {
+    data: page,
+    isLoading: results.some((result) => result.isLoading),
+    isError: results.some((result) => result.isError),
+    loadedTasks: results.filter((result) => result.isSuccess).length,
+    totalTasks: results.length,
+  };
+}
 
-  return query;
-}
\ No newline at end of file
+// Hook to get all actions for multiple tasks (used for timeline display).
+// One query per task, so adding or deleting a task leaves the others' cached actions alone, and
+// the timeline fills in as each one arrives.
+export function useAllActions(taskIds: string[]) {
+  return useQueries({
+    queries: taskIds.map((taskId) => ({
+      queryKey: ['actions', 'all', { taskId }],
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        limitActionRequests(() => listAllTaskActions(taskId, signal)),
+    })),
+    combine: combineTaskActions,
+  });
+}
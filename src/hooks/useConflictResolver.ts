@@ -0,0 +1,31 @@
+import { useState } from 'react';
+import type { ConflictDialogProps, ConflictItem } from '../components/ConflictDialog';
+import type { ConflictField, ConflictResolution } from '../utils/conflicts';
+
+interface PendingConflict {
+  item: ConflictItem;
+  fields: ConflictField[];
+  settle: (resolution: ConflictResolution) => void;
+}
+
+/**
+ * Drives a `ConflictDialog`: `resolveConflict(item)` is the `resolve` option for
+ * `saveWithConflictCheck`, and `conflictDialogProps` go onto the dialog.
+ */
+export function useConflictResolver() {
+  const [pending, setPending] = useState<PendingConflict | null>(null);
+
+  const resolveConflict = (item: ConflictItem) => (fields: ConflictField[]) =>
+    new Promise<ConflictResolution>((settle) => setPending({ item, fields, settle }));
+
+  const conflictDialogProps: ConflictDialogProps = {
+    item: pending?.item ?? null,
+    fields: pending?.fields ?? [],
+    onResolve: (resolution) => {
+      pending?.settle(resolution);
+      setPending(null);
+    },
+  };
+
+  return { resolveConflict, conflictDialogProps };
+}
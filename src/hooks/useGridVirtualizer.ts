@@ -0,0 +1,109 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+export interface GridWindow {
+  rowStart: number;
+  rowEnd: number;
+  columnStart: number;
+  columnEnd: number;
+}
+
+interface UseGridVirtualizerOptions {
+  scrollRef: RefObject<HTMLElement>;
+  rowCount: number;
+  rowHeight: number;
+  columnCount: number;
+  columnWidth: number;
+  /** Width of the sticky row header column, which covers part of the viewport. */
+  stickyWidth: number;
+  /** Extra rows/columns rendered on each side so fast scrolling does not flash blank cells. */
+  overscan?: number;
+}
+
+function clampWindow(start: number, visible: number, count: number, overscan: number) {
+  const from = Math.max(0, start - overscan);
+  const to = Math.min(count, start + visible + overscan);
+  return [from, Math.max(from, to)] as const;
+}
+
+function isSameWindow(a: GridWindow, b: GridWindow) {
+  return (
+    a.rowStart === b.rowStart &&
+    a.rowEnd === b.rowEnd &&
+    a.columnStart === b.columnStart &&
+    a.columnEnd === b.columnEnd
+  );
+}
+
+/**
+ * Works out which rows and columns of a fixed-size grid are inside the scroll container,
+ * so only those are rendered. End indices are exclusive.
+ */
+export function useGridVirtualizer({
+  scrollRef,
+  rowCount,
+  rowHeight,
+  columnCount,
+  columnWidth,
+  stickyWidth,
+  overscan = 4,
+}: UseGridVirtualizerOptions): GridWindow {
+  const [gridWindow, setGridWindow] = useState<GridWindow>(() => ({
+    rowStart: 0,
+    rowEnd: Math.min(rowCount, 30),
+    columnStart: 0,
+    columnEnd: Math.min(columnCount, 40),
+  }));
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) {
+      return undefined;
+    }
+
+    let frame: number | null = null;
+
+    const update = () => {
+      frame = null;
+      // Rows and columns slide under the sticky header row/column, so the scroll offset
+      // maps straight to the first visible index.
+      const [rowStart, rowEnd] = clampWindow(
+        Math.floor(container.scrollTop / rowHeight),
+        Math.ceil(container.clientHeight / rowHeight) + 1,
+        rowCount,
+        overscan,
+      );
+      const [columnStart, columnEnd] = clampWindow(
+        Math.floor(container.scrollLeft / columnWidth),
+        Math.ceil(Math.max(0, container.clientWidth - stickyWidth) / columnWidth) + 1,
+        columnCount,
+        overscan,
+      );
+      const next = { rowStart, rowEnd, columnStart, columnEnd };
+      setGridWindow((prev) => (isSameWindow(prev, next) ? prev : next));
+    };
+
+    const scheduleUpdate = () => {
+      if (frame === null) {
+        frame = window.requestAnimationFrame(update);
+      }
+    };
+
+    update();
+    container.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+    const observer =
+      typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(scheduleUpdate);
+    observer?.observe(container);
+
+    return () => {
+      if (frame !== null) {
+        window.cancelAnimationFrame(frame);
+      }
+      container.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+      observer?.disconnect();
+    };
+  }, [columnCount, columnWidth, overscan, rowCount, rowHeight, scrollRef, stickyWidth]);
+
+  return gridWindow;
+}
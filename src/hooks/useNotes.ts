@@ -0,0 +1,140 @@
+import { useMemo } from 'react';
+import { useMutation, useQueries, useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { fetchAllPages } from '../api/client';
+import { createNote, deleteNote, listNotes, updateNote } from '../api/notes';
+import type { NoteOwner, NoteRes } from '../types';
+import { queryClient } from '../queryClient';
+import { createRequestLimiter } from '../utils/requestLimiter';
+
+const NOTES_PAGE_SIZE = 500;
+
+// Per-task note lookups loading at once; the others wait for a free slot
+const MAX_PARALLEL_NOTE_REQUESTS = 6;
+const limitNoteRequests = createRequestLimiter(MAX_PARALLEL_NOTE_REQUESTS);
+
+function projectNotesQueryOptions(projectId?: string) {
+  return {
+    queryKey: ['notes', { projectId }],
+    queryFn: ({ signal }: { signal: AbortSignal }) =>
+      fetchAllPages((page) => listNotes({ projectId, page, size: NOTES_PAGE_SIZE, signal })),
+    enabled: Boolean(projectId),
+  };
+}
+
+/** Every note of one task, newest first; the cache the task's note thread reads. */
+export function taskNotesQueryOptions(taskId?: string) {
+  return {
+    queryKey: ['notes', { taskId }],
+    queryFn: ({ signal }: { signal: AbortSignal }) =>
+      fetchAllPages((page) => listNotes({ taskId, page, size: NOTES_PAGE_SIZE, signal })),
+    enabled: Boolean(taskId),
+  };
+}
+
+function selectProjectLevelNotes(notes: NoteRes[]) {
+  return notes.filter((note) => !note.taskId);
+}
+
+function combineLatestNotes(results: UseQueryResult<NoteRes[]>[]) {
+  return results.flatMap((result) => result.data ?? []);
+}
+
+// Loads every note of a project in one go (paged under the hood) instead of one request per task.
+// Task notes saved without a `projectId` (all those created before it was sent) aren't in that
+// list, so tasks without a note there look up their latest note on their own.
+export function useProjectNotes(projectId: string | undefined, taskIds: string[]) {
+  const query = useQuery(projectNotesQueryOptions(projectId));
+
+  // Notes arrive newest first, so the first one seen for a task is its latest
+  const latestNoteInProject = useMemo(() => {
+    const latest = new Map<string, NoteRes>();
+    (query.data ?? []).forEach((note) => {
+      if (note.taskId && !latest.has(note.taskId)) {
+        latest.set(note.taskId, note);
+      }
+    });
+    return latest;
+  }, [query.data]);
+
+  const uncoveredTaskIds = useMemo(
+    () => (query.isSuccess ? taskIds.filter((taskId) => !latestNoteInProject.has(taskId)) : []),
+    [latestNoteInProject, query.isSuccess, taskIds],
+  );
+  // A list of at most one note, so that deleting it from the cache works as for the other lists
+  const latestNotesOfOtherTasks = useQueries({
+    queries: uncoveredTaskIds.map((taskId) => ({
+      queryKey: ['notes', { taskId, latest: true }],
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        limitNoteRequests(async () => (await listNotes({ taskId, size: 1, signal })).content),
+    })),
+    combine: combineLatestNotes,
+  });
+
+  const latestNoteByTask = useMemo(() => {
+    const latest = new Map(latestNoteInProject);
+    latestNotesOfOtherTasks.forEach((note) => {
+      if (note.taskId) {
+        latest.set(note.taskId, note);
+      }
+    });
+    return latest;
+  }, [latestNoteInProject, latestNotesOfOtherTasks]);
+
+  return {
+    ...query,
+    latestNoteByTask,
+  };
+}
+
+// Number of notes attached to the project itself, as the project's notes board lists them. The
+// notes API has no filter for notes without a task, so this shares the project's note list with it.
+export function useProjectNoteCount(projectId?: string) {
+  return useQuery({
+    ...projectNotesQueryOptions(projectId),
+    select: (notes: NoteRes[]) => selectProjectLevelNotes(notes).length,
+  });
+}
+
+// Full note history of a task or of the project board, newest first
+export function useNoteThread(owner: NoteOwner) {
+  const taskId = 'taskId' in owner ? owner.taskId : undefined;
+  const { projectId } = owner;
+
+  const taskQuery = useQuery(taskNotesQueryOptions(taskId));
+  const projectQuery = useQuery({
+    ...projectNotesQueryOptions(taskId ? undefined : projectId),
+    select: selectProjectLevelNotes,
+  });
+  const query = taskId ? taskQuery : projectQuery;
+
+  // Invalidates the project-wide note lists too, so timeline indicators stay in sync
+  const invalidateNotes = () => queryClient.invalidateQueries({ queryKey: ['notes'] });
+
+  const create = useMutation({
+    mutationFn: (body: string) => createNote({ taskId, projectId, body }),
+    onSuccess: invalidateNotes,
+  });
+
+  // Settled rather than succeeded: a conflict (409) means the cached note is out of date
+  const update = useMutation({
+    mutationFn: ({ id, body, updatedAt }: { id: string; body: string; updatedAt?: string }) =>
+      updateNote(id, { body, updatedAt }),
+    onSettled: invalidateNotes,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => deleteNote(id),
+    onSuccess: invalidateNotes,
+  });
+
+  return {
+    ...query,
+    createNote: create.mutateAsync,
+    creating: create.isPending,
+    updateNote: (id: string, body: string, updatedAt?: string) =>
+      update.mutateAsync({ id, body, updatedAt }),
+    updating: update.isPending,
+    deleteNote: remove.mutateAsync,
+    deleting: remove.isPending,
+  };
+}
@@ -4,11 +4,11 @@ import { getProject } from '../api/projects';
 export function useProject(projectId?: string) {
   return useQuery({
     queryKey: ['project', projectId],
-    queryFn: () => {
+    queryFn: ({ signal }) => {
       if (!projectId) {
         throw new Error('Project ID is required');
       }
-      return getProject(projectId);
+      return getProject(projectId, signal);
     },
     enabled: Boolean(projectId),
   });
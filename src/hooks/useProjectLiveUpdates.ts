@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import type { QueryFilters } from '@tanstack/react-query';
+import {
+  isLiveUpdatesEnabled,
+  subscribeToProjectEvents,
+  type LiveUpdateStatus,
+} from '../api/events';
+import { queryClient } from '../queryClient';
+import type { ProjectEvent } from '../types';
+import { updateCachedLists } from '../utils/optimisticCache';
+import { actionListsOfTask } from './useActions';
+
+// Replaces the item if the list has it, otherwise adds it
+function upsert<T extends { id: string }>(item: T, at: 'start' | 'end' = 'end') {
+  return (items: T[]) => {
+    if (items.some((existing) => existing.id === item.id)) {
+      return items.map((existing) => (existing.id === item.id ? item : existing));
+    }
+    return at === 'start' ? [item, ...items] : [...items, item];
+  };
+}
+
+function without<T extends { id: string }>(id: string) {
+  return (items: T[]) => items.filter((item) => item.id !== id);
+}
+
+function exactly(queryKey: unknown[]): QueryFilters {
+  return { queryKey, exact: true };
+}
+
+function applyProjectEvent(projectId: string, event: ProjectEvent) {
+  switch (event.type) {
+    case 'task.created':
+    case 'task.updated':
+      updateCachedLists(exactly(['tasks', { projectId }]), upsert(event.task));
+      return;
+    case 'task.deleted':
+      updateCachedLists(exactly(['tasks', { projectId }]), without(event.id));
+      // The backend deletes the task's notes along with it
+      void queryClient.invalidateQueries({ queryKey: ['notes'] });
+      return;
+    case 'tag.created':
+    case 'tag.updated':
+      updateCachedLists(exactly(['tags', { projectId }]), upsert(event.tag));
+      return;
+    case 'tag.deleted':
+      updateCachedLists(exactly(['tags', { projectId }]), without(event.id));
+      return;
+    case 'note.created':
+    case 'note.updated': {
+      // Note lists are newest first; the project-wide list holds task notes too
+      const { note } = event;
+      updateCachedLists(exactly(['notes', { projectId }]), upsert(note, 'start'));
+      if (note.taskId) {
+        updateCachedLists(exactly(['notes', { taskId: note.taskId }]), upsert(note, 'start'));
+      }
+      return;
+    }
+    case 'note.deleted':
+      updateCachedLists({ queryKey: ['notes'] }, without(event.id));
+      return;
+    case 'action.created':
+    case 'action.updated':
+      updateCachedLists(actionListsOfTask(event.action.taskId), upsert(event.action));
+      return;
+    case 'action.deleted':
+      updateCachedLists({ queryKey: ['actions'] }, without(event.id));
+      return;
+    case 'presence.updated':
+      queryClient.setQueryData(['presence', { projectId }], event.viewers);
+      return;
+    default: {
+      const exhaustiveCheck: never = event;
+      return exhaustiveCheck;
+    }
+  }
+}
+
+// After a dropped connection the changes made meanwhile are unknown, so reload the whole board
+function resyncProject(projectId: string) {
+  void Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['tasks', { projectId }] }),
+    queryClient.invalidateQueries({ queryKey: ['tags', { projectId }] }),
+    queryClient.invalidateQueries({ queryKey: ['notes'] }),
+    queryClient.invalidateQueries({ queryKey: ['actions'] }),
+    queryClient.invalidateQueries({ queryKey: ['presence', { projectId }] }),
+  ]);
+}
+
+/**
+ * Keeps the open project's tasks, tags, notes and actions (and who else has it open) in sync with
+ * other people, by applying the project's event stream to the cache. Returns the connection status,
+ * or `null` when live updates are off.
+ */
+export function useProjectLiveUpdates(projectId?: string) {
+  const [status, setStatus] = useState<LiveUpdateStatus | null>(null);
+
+  useEffect(() => {
+    if (!projectId || !isLiveUpdatesEnabled) {
+      return;
+    }
+    const unsubscribe = subscribeToProjectEvents(projectId, {
+      onEvent: (event) => applyProjectEvent(projectId, event),
+      onStatusChange: setStatus,
+      onResync: () => resyncProject(projectId),
+    });
+    return () => {
+      unsubscribe();
+      setStatus(null);
+    };
+  }, [projectId]);
+
+  return status;
+}
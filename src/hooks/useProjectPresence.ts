@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ApiError } from '../api/errors';
+import { isLiveUpdatesEnabled } from '../api/events';
+import {
+  getProjectPresence,
+  leaveProject,
+  PRESENCE_SESSION_ID,
+  sendPresenceHeartbeat,
+} from '../api/presence';
+import { isAuthenticated } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('live');
+
+// Well inside the server's one-minute expiry, so a single lost heartbeat doesn't drop the viewer
+const PRESENCE_HEARTBEAT_MS = 20000;
+
+/**
+ * Announces that this tab has the project open, and `editingTaskId` open in the task form, and
+ * returns everyone else who does. The list is kept current by `presence.updated` events on the
+ * project's live-update stream (see `useProjectLiveUpdates`).
+ */
+export function useProjectPresence(projectId?: string, editingTaskId: string | null = null) {
+  const enabled = Boolean(projectId) && isLiveUpdatesEnabled;
+  // A backend without the presence endpoint answers 404; stop asking once it has
+  const unsupported = useRef(false);
+
+  const query = useQuery({
+    queryKey: ['presence', { projectId }],
+    queryFn: ({ signal }) => getProjectPresence(projectId as string, signal),
+    enabled,
+  });
+
+  useEffect(() => {
+    if (!projectId || !enabled) {
+      return;
+    }
+    const beat = () => {
+      if (unsupported.current) {
+        return;
+      }
+      sendPresenceHeartbeat(projectId, editingTaskId).catch((error) => {
+        unsupported.current = error instanceof ApiError && error.status === 404;
+        log.debug('Presence heartbeat failed', error);
+      });
+    };
+    beat();
+    const timer = setInterval(beat, PRESENCE_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [enabled, projectId, editingTaskId]);
+
+  useEffect(() => {
+    if (!projectId || !enabled) {
+      return;
+    }
+    // After a sign-out the server can't tell who is leaving; it expires the session on its own
+    const leave = () => {
+      if (!unsupported.current && isAuthenticated()) {
+        leaveProject(projectId).catch((error) => log.debug('Leaving the project failed', error));
+      }
+    };
+    window.addEventListener('pagehide', leave);
+    return () => {
+      window.removeEventListener('pagehide', leave);
+      leave();
+    };
+  }, [enabled, projectId]);
+
+  return useMemo(
+    () => (query.data ?? []).filter((viewer) => viewer.sessionId !== PRESENCE_SESSION_ID),
+    [query.data],
+  );
+}
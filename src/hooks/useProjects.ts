@@ -1,15 +1,23 @@
-import { useMutation, useQuery } from '@tanstack/react-query';
-import { apiRequest } from '../api/client';
-import { createProject, deleteProject, listProjects } from '../api/projects';
-import type { ProjectCreateInput, ProjectRes, ProjectUpdateInput } from '../types';
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query';
+import { fetchAllPages } from '../api/client';
+import { createProject, deleteProject, listProjects, updateProject } from '../api/projects';
+import type { ProjectCreateInput, ProjectUpdateInput } from '../types';
 import { queryClient } from '../queryClient';
 
 const PROJECTS_QUERY_KEY = ['projects'];
 
-export function useProjects() {
+interface UseProjectsOptions {
+  /** Passed to `listProjects`, e.g. `name,asc`. */
+  sort?: string;
+}
+
+// Every page is loaded, so that searching and filtering on the dashboard cover all projects
+export function useProjects({ sort }: UseProjectsOptions = {}) {
   const query = useQuery({
-    queryKey: PROJECTS_QUERY_KEY,
-    queryFn: () => listProjects(),
+    queryKey: [...PROJECTS_QUERY_KEY, { sort }],
+    queryFn: ({ signal }) => fetchAllPages((page) => listProjects({ page, sort, signal })),
+    // Keeps the current cards on screen while another sort order loads
+    placeholderData: keepPreviousData,
   });
 
   const mutation = useMutation({
@@ -22,10 +30,7 @@ export function useProjects() {
 
   const updateMutation = useMutation({
     mutationFn: ({ id, input }: { id: string; input: ProjectUpdateInput }) =>
-      apiRequest<ProjectRes>(`/api/projects/${id}`, {
-        method: 'PATCH',
-        body: JSON.stringify(input),
-      }),
+      updateProject(id, input),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY });
     },
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { refreshSession } from '../api/auth';
+import { ApiError, getErrorMessage } from '../api/errors';
+import { expireSession, getSessionInfo, onSessionChange } from '../utils/auth';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('auth');
+
+// Refresh the access token this long before it expires
+const REFRESH_AHEAD_MS = 60 * 1000;
+// Try again this soon when a background refresh fails for a transient reason
+const REFRESH_RETRY_MS = 30 * 1000;
+// Warn this long before the user has to sign in again
+const SESSION_WARNING_LEAD_MS = 5 * 60 * 1000;
+// setTimeout fires immediately for delays above 2^31 - 1 ms; longer waits are re-armed later
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+function schedule(at: number, callback: () => void) {
+  const delay = Math.max(0, at - Date.now());
+  const timer = window.setTimeout(callback, Math.min(delay, MAX_TIMER_DELAY_MS));
+  return () => window.clearTimeout(timer);
+}
+
+/**
+ * Keeps the signed-in session alive: refreshes the access token in the background before it
+ * expires, raises a warning shortly before the session ends, and ends it when time runs out.
+ */
+export function useSessionKeepAlive() {
+  const [session, setSession] = useState(getSessionInfo);
+  const [now, setNow] = useState(Date.now);
+  const [refreshAttempt, setRefreshAttempt] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const [extending, setExtending] = useState(false);
+  const [extendError, setExtendError] = useState<string | null>(null);
+
+  useEffect(
+    () =>
+      onSessionChange(() => {
+        setSession(getSessionInfo());
+        setNow(Date.now());
+        setDismissed(false);
+      }),
+    [],
+  );
+
+  // Background refresh ahead of the access token's expiry
+  useEffect(() => {
+    if (!session?.canRefresh) {
+      return undefined;
+    }
+
+    return schedule(session.accessExpiresAt - REFRESH_AHEAD_MS, () => {
+      refreshSession().catch((error) => {
+        // Our API answers a dead refresh token with 401, an OIDC provider with `invalid_grant`
+        if (error instanceof ApiError && (error.status === 401 || error.code === 'invalid_grant')) {
+          log.warn('Refresh token was rejected; ending the session');
+          expireSession();
+          return;
+        }
+        log.warn('Background session refresh failed; retrying shortly', error);
+        window.setTimeout(() => setRefreshAttempt((attempt) => attempt + 1), REFRESH_RETRY_MS);
+      });
+    });
+  }, [session, refreshAttempt]);
+
+  const endsAt = session?.endsAt ?? Number.POSITIVE_INFINITY;
+  const hasDeadline = Number.isFinite(endsAt);
+
+  // Wake up when the warning is due and when the session runs out
+  useEffect(() => {
+    if (!hasDeadline) {
+      return undefined;
+    }
+
+    const cancelWarning = schedule(endsAt - SESSION_WARNING_LEAD_MS, () => setNow(Date.now()));
+    const cancelExpiry = schedule(endsAt, () => {
+      if (Date.now() >= endsAt) {
+        expireSession();
+      } else {
+        setNow(Date.now());
+      }
+    });
+    return () => {
+      cancelWarning();
+      cancelExpiry();
+    };
+  }, [endsAt, hasDeadline]);
+
+  const warningDue = hasDeadline && now >= endsAt - SESSION_WARNING_LEAD_MS;
+
+  // Tick once a second while the warning is up so the countdown stays current
+  useEffect(() => {
+    if (!warningDue) {
+      return undefined;
+    }
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [warningDue]);
+
+  const extend = useCallback(async () => {
+    setExtending(true);
+    setExtendError(null);
+    try {
+      await refreshSession();
+      const refreshed = getSessionInfo();
+      if (refreshed && refreshed.endsAt - Date.now() <= SESSION_WARNING_LEAD_MS) {
+        setExtendError('Your session cannot be extended any further. Save your work and sign in again.');
+      }
+    } catch (error) {
+      setExtendError(getErrorMessage(error, 'Could not extend your session.'));
+    } finally {
+      setExtending(false);
+    }
+  }, []);
+
+  return {
+    session,
+    showWarning: warningDue && !dismissed,
+    msLeft: Math.max(0, endsAt - now),
+    extend,
+    extending,
+    extendError,
+    dismiss: () => setDismissed(true),
+  };
+}
@@ -2,13 +2,27 @@ import { useMutation, useQuery } from '@tanstack/react-query';
 import { createTag, deleteTag as deleteTagApi, listTags, updateTag as updateTagApi } from '../api/tags';
 import type { Page, TagCreateInput, TagRes, TagUpdateInput } from '../types';
 import { queryClient } from '../queryClient';
+import {
+  createOptimisticId,
+  findCachedItem,
+  patchCachedLists,
+  replaceOptimisticItem,
+  restoreCacheSnapshot,
+  updateCachedLists,
+  type CacheSnapshot,
+  type RollbackListener,
+} from '../utils/optimisticCache';
 
-export function useTags(projectId?: string) {
+interface UseTagsOptions {
+  onRollback?: RollbackListener;
+}
+
+export function useTags(projectId?: string, { onRollback }: UseTagsOptions = {}) {
   const queryKey = ['tags', { projectId }];
 
   const query = useQuery({
     queryKey,
-    queryFn: () => listTags({ projectId }),
+    queryFn: ({ signal }) => listTags({ projectId, signal }),
     enabled: Boolean(projectId),
     select: (data: Page<TagRes>): Page<TagRes> => ({
       ...data,
@@ -19,20 +33,68 @@ export function useTags(projectId?: string) {
     }),
   });
 
+  const rollback = (
+    error: unknown,
+    context: { snapshot: CacheSnapshot; undone: string } | undefined,
+  ) => {
+    if (!context) {
+      return;
+    }
+    restoreCacheSnapshot(context.snapshot);
+    onRollback?.(context.undone, error);
+  };
+
   const create = useMutation({
     mutationFn: (input: TagCreateInput) => createTag(input),
-    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onMutate: async (input) => {
+      const optimisticTag = toOptimisticTag(createOptimisticId(), input);
+      const snapshot = await patchCachedLists<TagRes>({ queryKey }, (tags) => [
+        ...tags,
+        optimisticTag,
+      ]);
+      return {
+        snapshot,
+        undone: `Tag "${input.title}" was removed.`,
+        optimisticId: optimisticTag.id,
+      };
+    },
+    // The placeholder bar becomes the real tag, which can then be edited, moved and deleted
+    onSuccess: (created, _input, context) =>
+      replaceOptimisticItem<TagRes>({ queryKey }, context?.optimisticId, created),
+    onError: (error, _input, context) => rollback(error, context),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
   });
 
   const remove = useMutation({
     mutationFn: (tagId: string) => deleteTagApi(tagId),
-    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onMutate: async (tagId) => {
+      const tag = findCachedItem<TagRes>(queryKey, tagId);
+      const snapshot = await patchCachedLists<TagRes>({ queryKey }, (tags) =>
+        tags.filter((item) => item.id !== tagId),
+      );
+      return { snapshot, undone: `Tag "${tag?.title ?? 'Untitled'}" was put back.` };
+    },
+    onError: (error, _tagId, context) => rollback(error, context),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
   });
 
   const update = useMutation({
     mutationFn: ({ tagId, data }: { tagId: string; data: TagUpdateInput }) =>
       updateTagApi(tagId, data),
-    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onMutate: async ({ tagId, data }) => {
+      const tag = findCachedItem<TagRes>(queryKey, tagId);
+      const snapshot = await patchCachedLists<TagRes>({ queryKey }, (tags) =>
+        tags.map((item) => (item.id === tagId ? toOptimisticTag(tagId, data, item) : item)),
+      );
+      return { snapshot, undone: `Changes to tag "${tag?.title ?? data.title}" were undone.` };
+    },
+    // The saved tag carries the server's new `updatedAt`, which the next edit has to send
+    onSuccess: (saved) =>
+      updateCachedLists<TagRes>({ queryKey }, (tags) =>
+        tags.map((item) => (item.id === saved.id ? { ...item, ...saved } : item)),
+      ),
+    onError: (error, _input, context) => rollback(error, context),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
   });
 
   return {
@@ -45,3 +107,21 @@ export function useTags(projectId?: string) {
     updating: update.isPending,
   };
 }
+
+// What the tag will look like once saved, shown until the refetch brings the real one
+function toOptimisticTag(id: string, input: TagCreateInput, existing?: TagRes): TagRes {
+  const now = new Date().toISOString();
+  return {
+    ...existing,
+    id,
+    projectId: input.projectId,
+    title: input.title,
+    description: input.description,
+    duration: input.duration,
+    startAt: input.startAt,
+    endAt: input.endAt,
+    color: input.color,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: existing?.updatedAt ?? now,
+  };
+}
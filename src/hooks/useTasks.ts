@@ -1,45 +1,108 @@
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { createTask, deleteTask, listTasks, updateTask as updateTaskApi } from '../api/tasks';
 import { createNote, deleteNote, updateNote } from '../api/notes';
-import type { NoteAction, Page, TaskRes, TaskUpdateInput, TaskWithNoteInput } from '../types';
+import type {
+  NoteAction,
+  Page,
+  TaskCreateInput,
+  TaskRes,
+  TaskUpdateInput,
+  TaskWithNoteInput,
+} from '../types';
 import { queryClient } from '../queryClient';
-import { toBoolean } from '../utils/toBoolean';
+import {
+  createOptimisticId,
+  findCachedItem,
+  patchCachedLists,
+  replaceOptimisticItem,
+  restoreCacheSnapshot,
+  updateCachedLists,
+  type CacheSnapshot,
+  type RollbackListener,
+} from '../utils/optimisticCache';
 
-export function useTasks(projectId?: string) {
+interface UseTasksOptions {
+  onRollback?: RollbackListener;
+}
+
+export function useTasks(projectId?: string, { onRollback }: UseTasksOptions = {}) {
   const queryKey = ['tasks', { projectId }];
 
   const query = useQuery({
     queryKey,
-    queryFn: () => listTasks({ projectId }),
+    queryFn: ({ signal }) => listTasks({ projectId, signal }),
     enabled: Boolean(projectId),
     select: (data: Page<TaskRes>): Page<TaskRes> => ({
       ...data,
-      content: [...data.content]
-        .map((task): TaskRes => ({
-          ...task,
-          isActivity: task.isActivity === undefined ? undefined : toBoolean(task.isActivity),
-        }))
-        .sort(
-          (taskA, taskB) =>
-            new Date(taskA.createdAt).getTime() - new Date(taskB.createdAt).getTime(),
-        ),
+      content: [...data.content].sort(
+        (taskA, taskB) => new Date(taskA.createdAt).getTime() - new Date(taskB.createdAt).getTime(),
+      ),
     }),
   });
 
+  // Task mutations can create, change or (on delete) remove notes as well
+  const invalidateTasksAndNotes = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey }),
+      queryClient.invalidateQueries({ queryKey: ['notes'] }),
+    ]);
+
+  // Bars move as soon as the user saves; a failed request puts the cached tasks back
+  const rollback = (
+    error: unknown,
+    context: { snapshot: CacheSnapshot; undone: string } | undefined,
+  ) => {
+    if (!context) {
+      return;
+    }
+    restoreCacheSnapshot(context.snapshot);
+    onRollback?.(context.undone, error);
+  };
+
   const create = useMutation({
     mutationFn: async ({ task, noteAction }: TaskWithNoteInput) => {
       const createdTask = await createTask(task);
-      await handleNoteAction({ noteAction, taskId: createdTask.id });
+      await handleNoteAction({ noteAction, task: createdTask });
       return createdTask;
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onMutate: async ({ task }) => {
+      const optimisticTask = toOptimisticTask(createOptimisticId(), task);
+      const snapshot = await patchCachedLists<TaskRes>({ queryKey }, (tasks) => [
+        ...tasks,
+        optimisticTask,
+      ]);
+      return {
+        snapshot,
+        undone: `Task "${task.title}" was removed.`,
+        optimisticId: optimisticTask.id,
+      };
+    },
+    // The placeholder bar becomes the real task, which can then be edited, moved and deleted
+    onSuccess: (created, _input, context) =>
+      replaceOptimisticItem<TaskRes>({ queryKey }, context?.optimisticId, created),
+    onError: (error, _input, context) => rollback(error, context),
+    onSettled: invalidateTasksAndNotes,
   });
 
   const remove = useMutation({
     mutationFn: (taskId: string) => deleteTask(taskId),
-    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onMutate: async (taskId) => {
+      const task = findCachedItem<TaskRes>(queryKey, taskId);
+      const snapshot = await patchCachedLists<TaskRes>({ queryKey }, (tasks) =>
+        tasks.filter((item) => item.id !== taskId),
+      );
+      return { snapshot, undone: `Task "${task?.title ?? 'Untitled'}" was put back.` };
+    },
+    onError: (error, _taskId, context) => rollback(error, context),
+    onSettled: invalidateTasksAndNotes,
   });
 
+  // The saved task carries the server's new `updatedAt`, which the next edit has to send
+  const storeSavedTask = (saved: TaskRes) =>
+    updateCachedLists<TaskRes>({ queryKey }, (tasks) =>
+      tasks.map((item) => (item.id === saved.id ? { ...item, ...saved } : item)),
+    );
+
   const update = useMutation({
     mutationFn: async ({
       taskId,
@@ -51,10 +114,19 @@ export function useTasks(projectId?: string) {
       noteAction: NoteAction;
     }) => {
       const updatedTask = await updateTaskApi(taskId, data);
-      await handleNoteAction({ noteAction, taskId });
+      await handleNoteAction({ noteAction, task: updatedTask });
       return updatedTask;
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onMutate: async ({ taskId, data }) => {
+      const task = findCachedItem<TaskRes>(queryKey, taskId);
+      const snapshot = await patchCachedLists<TaskRes>({ queryKey }, (tasks) =>
+        tasks.map((item) => (item.id === taskId ? toOptimisticTask(taskId, data, item) : item)),
+      );
+      return { snapshot, undone: `Changes to task "${task?.title ?? data.title}" were undone.` };
+    },
+    onSuccess: storeSavedTask,
+    onError: (error, _input, context) => rollback(error, context),
+    onSettled: invalidateTasksAndNotes,
   });
 
   return {
@@ -69,18 +141,39 @@ export function useTasks(projectId?: string) {
   };
 }
 
+// What the task will look like once saved, shown until the refetch brings the real one
+function toOptimisticTask(id: string, input: TaskCreateInput, existing?: TaskRes): TaskRes {
+  const now = new Date().toISOString();
+  return {
+    ...existing,
+    id,
+    projectId: input.projectId,
+    title: input.title,
+    description: input.description,
+    isActivity: input.isActivity,
+    duration: input.duration,
+    startAt: input.startAt,
+    endAt: input.endAt,
+    color: input.color,
+    dependencies: input.dependencies,
+    createdAt: existing?.createdAt ?? now,
+    // Only the server issues versions: an edit made before the refetch must send the real one
+    updatedAt: existing?.updatedAt ?? now,
+  };
+}
+
 async function handleNoteAction({
   noteAction,
-  taskId,
+  task,
 }: {
   noteAction: NoteAction;
-  taskId: string;
+  task: Pick<TaskRes, 'id' | 'projectId'>;
 }) {
   switch (noteAction.type) {
     case 'none':
       return;
     case 'create':
-      await createNote({ taskId, body: noteAction.body });
+      await createNote({ taskId: task.id, projectId: task.projectId, body: noteAction.body });
       return;
     case 'update':
       await updateNote(noteAction.id, { body: noteAction.body });
@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useRef, useState, type MouseEvent as ReactMouseEvent } from 'react';
+import { isSameRange, type DayRange } from '../utils/timeline';
+
+export type TimelineDragMode = 'move' | 'resize-start' | 'resize-end';
+
+export interface TimelineDragState {
+  itemId: string;
+  mode: TimelineDragMode;
+  origin: DayRange;
+  preview: DayRange;
+  committing: boolean;
+}
+
+interface DragSession {
+  itemId: string;
+  mode: TimelineDragMode;
+  origin: DayRange;
+  preview: DayRange;
+  pointerStartX: number;
+  pixelsPerDay: number;
+  active: boolean;
+  cancelled: boolean;
+}
+
+interface UseTimelineDragOptions {
+  onCommit: (itemId: string, range: DayRange) => Promise<void>;
+}
+
+// Pixels the pointer has to travel before a press on a bar turns into a drag.
+const DRAG_THRESHOLD_PX = 4;
+
+export function applyDragDelta(origin: DayRange, mode: TimelineDragMode, deltaDays: number): DayRange {
+  switch (mode) {
+    case 'move': {
+      const shift = Math.max(deltaDays, 1 - origin.start);
+      return { start: origin.start + shift, end: origin.end + shift };
+    }
+    case 'resize-start':
+      return { start: Math.min(Math.max(1, origin.start + deltaDays), origin.end), end: origin.end };
+    case 'resize-end':
+      return { start: origin.start, end: Math.max(origin.end + deltaDays, origin.start) };
+    default: {
+      const exhaustiveCheck: never = mode;
+      return exhaustiveCheck;
+    }
+  }
+}
+
+export function useTimelineDrag({ onCommit }: UseTimelineDragOptions) {
+  const [dragState, setDragState] = useState<TimelineDragState | null>(null);
+  const sessionRef = useRef<DragSession | null>(null);
+  const suppressClickRef = useRef(false);
+  const onCommitRef = useRef(onCommit);
+
+  useEffect(() => {
+    onCommitRef.current = onCommit;
+  }, [onCommit]);
+
+  const beginDrag = useCallback(
+    (
+      event: ReactMouseEvent<HTMLElement>,
+      itemId: string,
+      range: DayRange,
+      mode: TimelineDragMode,
+      daysPerCell = 1,
+    ) => {
+      if (event.button !== 0 || sessionRef.current) {
+        return;
+      }
+
+      const cell = event.currentTarget.closest('td') ?? event.currentTarget;
+      const cellWidth = cell.getBoundingClientRect().width;
+      if (!cellWidth) {
+        return;
+      }
+
+      // Keep the browser from starting a text selection while the bar is dragged
+      event.preventDefault();
+      event.stopPropagation();
+
+      sessionRef.current = {
+        itemId,
+        mode,
+        origin: range,
+        preview: range,
+        pointerStartX: event.clientX,
+        pixelsPerDay: cellWidth / daysPerCell,
+        active: false,
+        cancelled: false,
+      };
+    },
+    [],
+  );
+
+  useEffect(() => {
+    const handleMouseMove = (event: MouseEvent) => {
+      const session = sessionRef.current;
+      if (!session || session.cancelled) {
+        return;
+      }
+
+      const deltaX = event.clientX - session.pointerStartX;
+      const isFirstMove = !session.active;
+      if (isFirstMove) {
+        if (Math.abs(deltaX) < DRAG_THRESHOLD_PX) {
+          return;
+        }
+        session.active = true;
+      }
+
+      const preview = applyDragDelta(session.origin, session.mode, Math.round(deltaX / session.pixelsPerDay));
+      if (!isFirstMove && isSameRange(preview, session.preview)) {
+        return;
+      }
+
+      session.preview = preview;
+      setDragState({
+        itemId: session.itemId,
+        mode: session.mode,
+        origin: session.origin,
+        preview,
+        committing: false,
+      });
+    };
+
+    const handleMouseUp = () => {
+      const session = sessionRef.current;
+      if (!session) {
+        return;
+      }
+      sessionRef.current = null;
+
+      if (!session.active && !session.cancelled) {
+        // A plain press without movement is a click; let the cell handle it.
+        return;
+      }
+
+      suppressNextClick();
+
+      if (session.cancelled || isSameRange(session.preview, session.origin)) {
+        setDragState(null);
+        return;
+      }
+
+      setDragState((prev) => (prev ? { ...prev, committing: true } : prev));
+      void onCommitRef.current(session.itemId, session.preview).finally(() => setDragState(null));
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const session = sessionRef.current;
+      if (event.key !== 'Escape' || !session || session.cancelled) {
+        return;
+      }
+
+      // Keep the session until mouseup so the release is not mistaken for a cell click.
+      event.preventDefault();
+      session.cancelled = true;
+      setDragState(null);
+    };
+
+    const suppressNextClick = () => {
+      suppressClickRef.current = true;
+      // The click that follows mouseup may land on another element; never swallow a later one.
+      window.setTimeout(() => {
+        suppressClickRef.current = false;
+      }, 0);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  const consumeClickSuppression = useCallback(() => {
+    if (!suppressClickRef.current) {
+      return false;
+    }
+    suppressClickRef.current = false;
+    return true;
+  }, []);
+
+  return {
+    dragState,
+    beginDrag,
+    consumeClickSuppression,
+  };
+}
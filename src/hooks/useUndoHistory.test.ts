@@ -0,0 +1,48 @@
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { createOrDeleteChange, useUndoHistory } from './useUndoHistory';
+
+describe('useUndoHistory', () => {
+  it('follows an item that undo brought back under a new id', async () => {
+    const existing = new Set(['task-1']);
+    let nextId = 2;
+    const restore = async () => {
+      const id = `task-${nextId++}`;
+      existing.add(id);
+      return { id };
+    };
+    const remove = async (id: string) => {
+      if (!existing.delete(id)) {
+        throw new Error(`${id} not found`);
+      }
+    };
+
+    const { result } = renderHook(() => useUndoHistory('project-1'));
+    await remove('task-1');
+    act(() =>
+      result.current.record(createOrDeleteChange('deleting', 'deleted', 'task-1', restore, remove)),
+    );
+
+    await act(() => result.current.undo());
+    expect([...existing]).toEqual(['task-2']);
+    await act(() => result.current.redo());
+    await act(() => result.current.undo());
+    expect([...existing]).toEqual(['task-3']);
+    expect(result.current.canRedo).toBe(true);
+  });
+
+  it('drops a step that fails', async () => {
+    const { result } = renderHook(() => useUndoHistory('project-1'));
+    act(() =>
+      result.current.record({
+        label: 'editing',
+        undo: () => Promise.reject(new Error('Changed by someone else')),
+        redo: () => Promise.resolve(),
+      }),
+    );
+
+    await act(() => expect(result.current.undo()).rejects.toThrow('Changed by someone else'));
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+});
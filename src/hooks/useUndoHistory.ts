@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Older changes fall off the bottom of the stack
+const HISTORY_LIMIT = 50;
+
+/**
+ * Follows items that undo or redo recreated: deleting and restoring a task gives it a new id, and
+ * earlier changes in the history still refer to the old one.
+ */
+export interface IdResolver {
+  /** The id the item has now. */
+  current: (id: string) => string;
+  /** Records that the item known as `id` now exists as `newId`. */
+  replace: (id: string, newId: string) => void;
+}
+
+/** A change the user made that can be reversed and made again. */
+export interface UndoableChange {
+  /** What the change did, for notifications: `deleting task "Design"`. */
+  label: string;
+  undo: (ids: IdResolver) => Promise<void>;
+  redo: (ids: IdResolver) => Promise<void>;
+}
+
+/**
+ * Undo entry for creating or deleting an item, which reverse each other. `restore` brings the item
+ * back and resolves with it under its new id; `remove` deletes it by id.
+ */
+export function createOrDeleteChange(
+  label: string,
+  change: 'created' | 'deleted',
+  id: string,
+  restore: (ids: IdResolver) => Promise<{ id: string }>,
+  remove: (id: string) => Promise<unknown>,
+): UndoableChange {
+  const bringBack = async (ids: IdResolver) => {
+    const restored = await restore(ids);
+    ids.replace(id, restored.id);
+  };
+  const takeAway = async (ids: IdResolver) => {
+    await remove(ids.current(id));
+  };
+  return change === 'created'
+    ? { label, undo: takeAway, redo: bringBack }
+    : { label, undo: bringBack, redo: takeAway };
+}
+
+/** Stops an undo or redo that would overwrite what someone else changed since. */
+export function changedSinceError(what: string) {
+  return new Error(`${what} has been changed by someone else since, so it was left as it is.`);
+}
+
+function createIdResolver(): IdResolver {
+  const replaced = new Map<string, string>();
+  const current = (id: string) => {
+    let resolved = id;
+    while (replaced.has(resolved)) {
+      resolved = replaced.get(resolved) as string;
+    }
+    return resolved;
+  };
+  return {
+    current,
+    replace: (id, newId) => {
+      const latest = current(id);
+      if (latest !== newId) {
+        replaced.set(latest, newId);
+      }
+    },
+  };
+}
+
+/**
+ * Undo and redo stacks of the changes made in one scope (e.g. a project); switching scope starts
+ * afresh. One step runs at a time. A step that fails is dropped from the history, since whatever
+ * made it fail (usually someone else's change) will still be there next time.
+ */
+export function useUndoHistory(scope?: string) {
+  const pastRef = useRef<UndoableChange[]>([]);
+  const futureRef = useRef<UndoableChange[]>([]);
+  const idsRef = useRef(createIdResolver());
+  const runningRef = useRef(false);
+  const [running, setRunning] = useState(false);
+  const [sizes, setSizes] = useState({ past: 0, future: 0 });
+
+  const syncSizes = useCallback(() => {
+    setSizes({ past: pastRef.current.length, future: futureRef.current.length });
+  }, []);
+
+  useEffect(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    idsRef.current = createIdResolver();
+    syncSizes();
+  }, [scope, syncSizes]);
+
+  // A new change makes the undone ones unreachable
+  const record = useCallback(
+    (change: UndoableChange) => {
+      pastRef.current = [...pastRef.current, change].slice(-HISTORY_LIMIT);
+      futureRef.current = [];
+      syncSizes();
+    },
+    [syncSizes],
+  );
+
+  const step = useCallback(
+    async (direction: 'undo' | 'redo') => {
+      const from = direction === 'undo' ? pastRef : futureRef;
+      const to = direction === 'undo' ? futureRef : pastRef;
+      const change = from.current[from.current.length - 1];
+      if (!change || runningRef.current) {
+        return null;
+      }
+
+      runningRef.current = true;
+      setRunning(true);
+      from.current = from.current.slice(0, -1);
+      try {
+        await change[direction](idsRef.current);
+        to.current = [...to.current, change];
+        return change;
+      } finally {
+        runningRef.current = false;
+        setRunning(false);
+        syncSizes();
+      }
+    },
+    [syncSizes],
+  );
+
+  return {
+    record,
+    /** Reverses the latest change; resolves with it, or `null` when there is nothing to undo. */
+    undo: useCallback(() => step('undo'), [step]),
+    /** Makes the latest undone change again; resolves with it, or `null` when there is none. */
+    redo: useCallback(() => step('redo'), [step]),
+    canUndo: sizes.past > 0 && !running,
+    canRedo: sizes.future > 0 && !running,
+    running,
+  };
+}
+
+// Text fields keep their own undo, and a shortcut shouldn't change the board behind an open dialog
+function isShortcutBlocked(event: KeyboardEvent) {
+  const target = event.target instanceof HTMLElement ? event.target : null;
+  return Boolean(
+    event.defaultPrevented ||
+      target?.closest('input, textarea, select, [contenteditable="true"]') ||
+      document.querySelector('[aria-modal="true"]'),
+  );
+}
+
+function getShortcut(event: KeyboardEvent) {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+    return null;
+  }
+  const key = event.key.toLowerCase();
+  if (key === 'z') {
+    return event.shiftKey ? 'redo' : 'undo';
+  }
+  // Ctrl+Y is the usual redo on Windows
+  return key === 'y' && !event.shiftKey ? 'redo' : null;
+}
+
+/** Ctrl+Z (⌘Z) undoes, Ctrl+Shift+Z (⌘⇧Z) and Ctrl+Y redo. */
+export function useUndoShortcuts(onUndo: () => void, onRedo: () => void, enabled = true) {
+  const handlersRef = useRef({ onUndo, onRedo });
+
+  useEffect(() => {
+    handlersRef.current = { onUndo, onRedo };
+  }, [onUndo, onRedo]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcut = getShortcut(event);
+      if (!shortcut || isShortcutBlocked(event)) {
+        return;
+      }
+      event.preventDefault();
+      if (shortcut === 'undo') {
+        handlersRef.current.onUndo();
+      } else {
+        handlersRef.current.onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -1,10 +1,22 @@
-import { QueryClient } from '@tanstack/react-query';
+import { MutationCache, QueryClient } from '@tanstack/react-query';
+import { isForbiddenError } from './api/errors';
 
-export const queryClient = new QueryClient({
+export const queryClient: QueryClient = new QueryClient({
+  // A 403 usually means the user's role changed since the project was loaded; reload projects
+  // so the UI stops offering what is no longer allowed
+  mutationCache: new MutationCache({
+    onError: (error) => {
+      if (isForbiddenError(error)) {
+        void queryClient.invalidateQueries({ queryKey: ['projects'] });
+        void queryClient.invalidateQueries({ queryKey: ['project'] });
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       refetchOnWindowFocus: false,
-      retry: 1,
+      // apiRequest already retries transient failures of GET requests with backoff
+      retry: false,
     },
   },
 });
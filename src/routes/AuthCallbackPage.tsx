@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { getErrorMessage } from '../api/errors';
+import { completeOidcLogin } from '../api/oidc';
+
+// Where the identity provider sends the browser back after single sign-on
+export default function AuthCallbackPage() {
+  const navigate = useNavigate();
+  const { search } = useLocation();
+  const [error, setError] = useState('');
+  // Authorization codes are single-use; StrictMode's second effect run must not redeem it again
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) {
+      return;
+    }
+    started.current = true;
+
+    completeOidcLogin(search)
+      .then((returnTo) => navigate(returnTo, { replace: true }))
+      .catch((loginError) => setError(getErrorMessage(loginError, 'Sign-in failed. Please try again.')));
+  }, [navigate, search]);
+
+  return (
+    <div className="app-shell">
+      <main className="app-main" style={{ maxWidth: '420px', margin: '0 auto', width: '100%' }}>
+        <section className="card">
+          <h1>Signing in</h1>
+          {error ? (
+            <>
+              <p className="error-message" role="alert">{error}</p>
+              <Link to="/login" replace>
+                Back to sign in
+              </Link>
+            </>
+          ) : (
+            <p>Completing single sign-on…</p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
-import { FormEvent, useState } from 'react';
+import { FormEvent, useEffect, useState } from 'react';
 import { Navigate, useLocation, useNavigate } from 'react-router-dom';
-import { isAuthenticated, login } from '../utils/auth';
+import { login } from '../api/auth';
+import { ApiError, getErrorMessage } from '../api/errors';
+import { beginOidcLogin, isOidcEnabled } from '../api/oidc';
+import { isAuthenticated, onSessionChange } from '../utils/auth';
 
 type LocationState = {
   from?: {
     pathname: string;
+    search?: string;
+    hash?: string;
   };
 };
 
@@ -12,28 +17,60 @@ export default function LoginPage() {
   const navigate = useNavigate();
   const location = useLocation();
   const state = (location.state ?? {}) as LocationState;
-  const redirectPath = state.from?.pathname ?? '/';
+  const redirectPath = state.from
+    ? `${state.from.pathname}${state.from.search ?? ''}${state.from.hash ?? ''}`
+    : '/';
 
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Signing in from another tab signs this one in too
+  useEffect(
+    () =>
+      onSessionChange(() => {
+        if (isAuthenticated()) {
+          navigate(redirectPath, { replace: true });
+        }
+      }),
+    [navigate, redirectPath],
+  );
 
   if (isAuthenticated()) {
     return <Navigate to={redirectPath} replace />;
   }
 
-  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-
-    const success = login(username.trim(), password);
+  const handleSsoLogin = async () => {
+    setSubmitting(true);
+    setError('');
 
-    if (!success) {
-      setError('Invalid username or password.');
-      return;
+    try {
+      // Leaves the app; the identity provider sends the user back to the callback route
+      await beginOidcLogin(redirectPath);
+    } catch (ssoError) {
+      setError(getErrorMessage(ssoError, 'Could not start single sign-on. Please try again.'));
+      setSubmitting(false);
     }
+  };
 
-    setError('');
-    navigate(redirectPath, { replace: true });
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+
+    try {
+      await login({ username: username.trim(), password });
+      setError('');
+      navigate(redirectPath, { replace: true });
+    } catch (loginError) {
+      setError(
+        loginError instanceof ApiError && loginError.status === 401
+          ? 'Invalid username or password.'
+          : getErrorMessage(loginError, 'Could not sign in. Please try again.'),
+      );
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   return (
@@ -41,7 +78,15 @@ export default function LoginPage() {
       <main className="app-main" style={{ maxWidth: '420px', margin: '0 auto', width: '100%' }}>
         <section className="card">
           <h1>Sign in</h1>
-          <p>Use the admin credentials to continue.</p>
+          <p>Sign in with your account to continue.</p>
+          {isOidcEnabled() ? (
+            <>
+              <button type="button" onClick={() => void handleSsoLogin()} disabled={submitting}>
+                Sign in with company SSO
+              </button>
+              <p className="login-divider">or use a local account</p>
+            </>
+          ) : null}
           <form onSubmit={handleSubmit}>
             <div className="field">
               <label htmlFor="username">Username</label>
@@ -67,7 +112,9 @@ export default function LoginPage() {
               />
             </div>
             {error ? <p className="error-message" role="alert">{error}</p> : null}
-            <button type="submit">Log in</button>
+            <button type="submit" disabled={submitting}>
+              {submitting ? 'Logging in…' : 'Log in'}
+            </button>
           </form>
         </section>
       </main>
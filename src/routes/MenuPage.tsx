@@ -1,18 +1,37 @@
-import { useState, type SVGProps } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useMemo, useState, type SVGProps } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import dayjs from 'dayjs';
 import relativeTime from 'dayjs/plugin/relativeTime';
 import customParseFormat from 'dayjs/plugin/customParseFormat';
 import { useProjects } from '../hooks/useProjects';
+import { useProjectNoteCount } from '../hooks/useNotes';
+import { getErrorMessage } from '../api/errors';
 import ProjectModal from '../components/ProjectModal';
 import DeleteProjectModal from '../components/DeleteProjectModal';
 import type { ProjectCreateInput, ProjectRes } from '../types';
+import { queryClient } from '../queryClient';
+import { logout } from '../api/auth';
+import { getProjectPermissions, PROJECT_ROLE_LABELS } from '../utils/permissions';
+import {
+  filterProjects,
+  isDefaultProjectListView,
+  parseProjectListView,
+  PROJECT_SORT_OPTIONS,
+  PROJECT_STATUS_LABELS,
+  toProjectListSearchParams,
+  type ProjectListView,
+  type ProjectSort,
+  type ProjectStatusFilter,
+} from '../utils/projectFilters';
 
 dayjs.extend(relativeTime);
 dayjs.extend(customParseFormat);
 
 export default function MenuPage() {
   const navigate = useNavigate();
+  // Search, sort and filter live in the query string, so a view can be bookmarked or shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = parseProjectListView(searchParams);
   const {
     data,
     isLoading,
@@ -24,8 +43,14 @@ export default function MenuPage() {
     updating,
     deleteProject,
     deleting,
-  } = useProjects();
-  const projects = data?.content ?? [];
+  } = useProjects({ sort: PROJECT_SORT_OPTIONS[view.sort].sort });
+  const projects = useMemo(() => data ?? [], [data]);
+  const { query, status } = view;
+  const visibleProjects = useMemo(
+    () => filterProjects(projects, { query, status }),
+    [projects, query, status],
+  );
+  const isFiltered = !isDefaultProjectListView(view);
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [activeProject, setActiveProject] = useState<ProjectRes | null>(null);
@@ -34,6 +59,15 @@ export default function MenuPage() {
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [notification, setNotification] = useState<{message: string; type: 'success' | 'error'} | null>(null);
 
+  // Replaces the history entry, so typing a search doesn't add one per keystroke
+  const updateView = (changes: Partial<ProjectListView>) => {
+    setSearchParams(toProjectListSearchParams({ ...view, ...changes }, searchParams), {
+      replace: true,
+    });
+  };
+
+  const clearFilters = () => updateView({ query: '', status: 'all' });
+
   const openCreateModal = () => {
     setActiveProject(null);
     setIsModalOpen(true);
@@ -67,25 +101,20 @@ export default function MenuPage() {
     setTimeout(() => setNotification(null), 5000); // Auto-hide after 5 seconds
   };
 
+  // Errors propagate to ProjectModal, which keeps the form open and shows them next to the inputs
   const handleSubmit = async (input: ProjectCreateInput) => {
-    try {
-      if (activeProject) {
-        await updateProject({
-          id: activeProject.id,
-          input: {
-            ...input,
-            updatedAt: activeProject.updatedAt,
-          },
-        });
-        showNotification(`✅ Project "${input.name}" updated successfully!`, 'success');
-      } else {
-        await createProject(input);
-        showNotification(`✅ Project "${input.name}" created successfully!`, 'success');
-      }
-    } catch (error) {
-      const action = activeProject ? 'update' : 'create';
-      const errorMessage = error instanceof Error ? error.message : `Failed to ${action} project`;
-      showNotification(`❌ ${errorMessage}`, 'error');
+    if (activeProject) {
+      await updateProject({
+        id: activeProject.id,
+        input: {
+          ...input,
+          updatedAt: activeProject.updatedAt,
+        },
+      });
+      showNotification(`✅ Project "${input.name}" updated successfully!`, 'success');
+    } else {
+      await createProject(input);
+      showNotification(`✅ Project "${input.name}" created successfully!`, 'success');
     }
   };
 
@@ -95,7 +124,7 @@ export default function MenuPage() {
       showNotification(`✅ Project "${project.name}" deleted successfully!`, 'success');
       closeModal();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to delete project';
+      const errorMessage = getErrorMessage(error, 'Failed to delete project');
       showNotification(`❌ ${errorMessage}`, 'error');
     }
   };
@@ -111,7 +140,7 @@ export default function MenuPage() {
       showNotification(`✅ Project "${deleteTarget.name}" deleted successfully!`, 'success');
       closeDeleteModal();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to delete project';
+      const errorMessage = getErrorMessage(error, 'Failed to delete project');
       setDeleteError(errorMessage);
       showNotification(`❌ ${errorMessage}`, 'error');
     }
@@ -123,16 +152,17 @@ export default function MenuPage() {
 
   const isSubmitting = activeProject ? updating : creating;
 
-  const handleLogout = () => {
-    // Clear SSO session storage
-    sessionStorage.removeItem('tms-auth-session');
-    localStorage.removeItem('tms-auth-session');
-    
-    // Clear any other authentication-related storage
+  const handleLogout = async () => {
+    const identityProviderLogoutUrl = await logout();
     sessionStorage.clear();
-    
-    // Reload the page to trigger SSO login
-    window.location.reload();
+    queryClient.clear();
+
+    if (identityProviderLogoutUrl) {
+      // The identity provider ends its own session and sends the browser back to /login
+      window.location.assign(identityProviderLogoutUrl);
+      return;
+    }
+    navigate('/login', { replace: true });
   };
 
   return (
@@ -208,7 +238,7 @@ export default function MenuPage() {
           </button>
           <button 
             type="button" 
-            onClick={handleLogout}
+            onClick={() => void handleLogout()}
             style={{
               display: 'flex',
               alignItems: 'center',
@@ -238,6 +268,52 @@ export default function MenuPage() {
         </div>
       </div>
 
+      {projects.length ? (
+        <div className="menu-toolbar" role="search">
+          <label className="menu-toolbar__search">
+            <SearchIcon className="menu-toolbar__search-icon" aria-hidden="true" />
+            <input
+              type="search"
+              aria-label="Search projects"
+              value={view.query}
+              placeholder="Search by name or description"
+              onChange={(event) => updateView({ query: event.target.value })}
+            />
+          </label>
+          <label className="menu-toolbar__field">
+            <span>Show</span>
+            <select
+              value={view.status}
+              onChange={(event) => updateView({ status: event.target.value as ProjectStatusFilter })}
+            >
+              {Object.entries(PROJECT_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="menu-toolbar__field">
+            <span>Sort by</span>
+            <select
+              value={view.sort}
+              onChange={(event) => updateView({ sort: event.target.value as ProjectSort })}
+            >
+              {Object.entries(PROJECT_SORT_OPTIONS).map(([value, { label }]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {isFiltered ? (
+            <p className="menu-toolbar__summary" aria-live="polite">
+              Showing {visibleProjects.length} of {projects.length}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+
       {isLoading ? (
         <div style={{ 
           textAlign: 'center', 
@@ -258,7 +334,7 @@ export default function MenuPage() {
           color: '#991b1b'
         }}>
           <p style={{ margin: 0 }}>
-            ⚠️ {error instanceof Error ? error.message : 'Failed to load projects'}
+            ⚠️ {getErrorMessage(error, 'Failed to load projects')}
           </p>
         </div>
       ) : null}
@@ -279,13 +355,22 @@ export default function MenuPage() {
         </div>
       ) : null}
 
+      {projects.length && !visibleProjects.length ? (
+        <div className="menu-empty-filter">
+          <p>No projects match {view.query.trim() ? `"${view.query.trim()}"` : 'these filters'}.</p>
+          <button type="button" className="button-secondary" onClick={clearFilters}>
+            Clear filters
+          </button>
+        </div>
+      ) : null}
+
       <div className="menu-list" style={{ 
         display: 'grid',
         gridTemplateColumns: 'repeat(auto-fill, minmax(320px, 1fr))',
         gap: '24px',
         rowGap: '32px'
       }}>
-        {projects.map((project) => (
+        {visibleProjects.map((project) => (
           <div key={project.id} style={{ padding: '16px' }}>
             <article 
               className="menu-card"
@@ -355,6 +440,13 @@ export default function MenuPage() {
                   <ClockIcon style={{ width: '14px', height: '14px' }} aria-hidden="true" />
                   {dayjs(project.updatedAt).isValid() ? dayjs(project.updatedAt).fromNow() : 'Invalid date'}
                 </div>
+                <ProjectNoteCount projectId={project.id} />
+                {project.role && project.role !== 'owner' ? (
+                  <>
+                    <span style={{ color: '#d1d5db' }}>•</span>
+                    <span>{PROJECT_ROLE_LABELS[project.role]}</span>
+                  </>
+                ) : null}
               </div>
             </header>
             
@@ -420,50 +512,54 @@ export default function MenuPage() {
                 <EyeIcon style={{ width: '16px', height: '16px' }} aria-hidden="true" />
                 View
               </button>
-              <button 
-                type="button" 
-                onClick={(e) => {
-                  e.stopPropagation();
-                  openEditModal(project);
-                }}
-                style={{
-                  padding: '8px 12px',
-                  background: '#f3f4f6',
-                  color: '#374151',
-                  border: 'none',
-                  borderRadius: '6px',
-                  fontSize: '14px',
-                  cursor: 'pointer',
-                  transition: 'background 0.2s ease'
-                }}
-                onMouseEnter={(e) => e.currentTarget.style.background = '#e5e7eb'}
-                onMouseLeave={(e) => e.currentTarget.style.background = '#f3f4f6'}
-                aria-label="Edit project"
-              >
-                <PencilIcon style={{ width: '16px', height: '16px' }} aria-hidden="true" />
-              </button>
-              <button 
-                type="button" 
-                onClick={(e) => {
-                  e.stopPropagation();
-                  openDeleteModal(project);
-                }}
-                style={{
-                  padding: '8px 12px',
-                  background: '#fef2f2',
-                  color: '#dc2626',
-                  border: 'none',
-                  borderRadius: '6px',
-                  fontSize: '14px',
-                  cursor: 'pointer',
-                  transition: 'background 0.2s ease'
-                }}
-                onMouseEnter={(e) => e.currentTarget.style.background = '#fee2e2'}
-                onMouseLeave={(e) => e.currentTarget.style.background = '#fef2f2'}
-                aria-label="Delete project"
-              >
-                <TrashIcon style={{ width: '16px', height: '16px' }} aria-hidden="true" />
-              </button>
+              {getProjectPermissions(project).canEdit ? (
+                <button 
+                  type="button" 
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    openEditModal(project);
+                  }}
+                  style={{
+                    padding: '8px 12px',
+                    background: '#f3f4f6',
+                    color: '#374151',
+                    border: 'none',
+                    borderRadius: '6px',
+                    fontSize: '14px',
+                    cursor: 'pointer',
+                    transition: 'background 0.2s ease'
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.background = '#e5e7eb'}
+                  onMouseLeave={(e) => e.currentTarget.style.background = '#f3f4f6'}
+                  aria-label="Edit project"
+                >
+                  <PencilIcon style={{ width: '16px', height: '16px' }} aria-hidden="true" />
+                </button>
+              ) : null}
+              {getProjectPermissions(project).canDelete ? (
+                <button 
+                  type="button" 
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    openDeleteModal(project);
+                  }}
+                  style={{
+                    padding: '8px 12px',
+                    background: '#fef2f2',
+                    color: '#dc2626',
+                    border: 'none',
+                    borderRadius: '6px',
+                    fontSize: '14px',
+                    cursor: 'pointer',
+                    transition: 'background 0.2s ease'
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.background = '#fee2e2'}
+                  onMouseLeave={(e) => e.currentTarget.style.background = '#fef2f2'}
+                  aria-label="Delete project"
+                >
+                  <TrashIcon style={{ width: '16px', height: '16px' }} aria-hidden="true" />
+                </button>
+              ) : null}
             </div>
           </article>
           </div>
@@ -476,7 +572,7 @@ export default function MenuPage() {
         project={activeProject}
         submitting={isSubmitting}
         onSubmit={handleSubmit}
-        onDelete={activeProject ? handleDelete : undefined}
+        onDelete={getProjectPermissions(activeProject).canDelete ? handleDelete : undefined}
         deleting={deleting}
         onClose={closeModal}
       />
@@ -534,6 +630,14 @@ function PlusIcon(props: SVGProps<SVGSVGElement>) {
   );
 }
 
+function SearchIcon(props: SVGProps<SVGSVGElement>) {
+  return (
+    <svg viewBox="0 0 24 24" fill="currentColor" focusable="false" {...props}>
+      <path d="M15.5 14h-.79l-.28-.27A6.47 6.47 0 0 0 16 9.5 6.5 6.5 0 1 0 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z"/>
+    </svg>
+  );
+}
+
 function CalendarIcon(props: SVGProps<SVGSVGElement>) {
   return (
     <svg viewBox="0 0 24 24" fill="currentColor" focusable="false" {...props}>
@@ -542,6 +646,32 @@ function CalendarIcon(props: SVGProps<SVGSVGElement>) {
   );
 }
 
+function ProjectNoteCount({ projectId }: { projectId: string }) {
+  const { data: count } = useProjectNoteCount(projectId);
+
+  if (!count) {
+    return null;
+  }
+
+  return (
+    <>
+      <span style={{ color: '#d1d5db' }}>•</span>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+        <NoteIcon style={{ width: '14px', height: '14px' }} aria-hidden="true" />
+        {count} {count === 1 ? 'note' : 'notes'}
+      </div>
+    </>
+  );
+}
+
+function NoteIcon(props: SVGProps<SVGSVGElement>) {
+  return (
+    <svg viewBox="0 0 24 24" fill="currentColor" focusable="false" {...props}>
+      <path d="M14 2H6c-1.1 0-2 .9-2 2v16c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2V8l-6-6zm2 16H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z"/>
+    </svg>
+  );
+}
+
 function ClockIcon(props: SVGProps<SVGSVGElement>) {
   return (
     <svg viewBox="0 0 24 24" fill="currentColor" focusable="false" {...props}>
@@ -1,22 +1,75 @@
 import {
   useEffect,
   useMemo,
+  useRef,
   useState,
   type CSSProperties,
   type SVGProps,
 } from 'react';
-import dayjs from 'dayjs';
+import dayjs, { type Dayjs } from 'dayjs';
 import customParseFormat from 'dayjs/plugin/customParseFormat';
 import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useProject } from '../hooks/useProject';
 import { useTags } from '../hooks/useTags';
 import { useTasks } from '../hooks/useTasks';
-import { useAllActions } from '../hooks/useActions';
-import { listNotes } from '../api/notes';
+import { useActionMutations, useAllActions } from '../hooks/useActions';
+import { useTimelineDrag, type TimelineDragMode } from '../hooks/useTimelineDrag';
+import { useGridVirtualizer } from '../hooks/useGridVirtualizer';
+import { taskNotesQueryOptions, useProjectNotes } from '../hooks/useNotes';
+import { useProjectLiveUpdates } from '../hooks/useProjectLiveUpdates';
+import { useProjectPresence } from '../hooks/useProjectPresence';
+import { useConflictResolver } from '../hooks/useConflictResolver';
+import {
+  changedSinceError,
+  createOrDeleteChange,
+  useUndoHistory,
+  useUndoShortcuts,
+  type IdResolver,
+  type UndoableChange,
+} from '../hooks/useUndoHistory';
+import { ApiError, getErrorMessage, isConflictError } from '../api/errors';
+import { getTask } from '../api/tasks';
+import { getTag } from '../api/tags';
+import { getAction } from '../api/actions';
+import { createNote } from '../api/notes';
 import { queryClient } from '../queryClient';
+import type { LiveUpdateStatus } from '../api/events';
 import TaskModal from '../components/TaskModal';
 import TagModal from '../components/TagModal';
-import type { NoteRes, TagCreateInput, TagRes, TaskRes, TaskWithNoteInput, ActionRes, ActionCreateInput, ActionUpdateInput } from '../types';
+import NotesPanel from '../components/NotesPanel';
+import TimelineDependencyArrows from '../components/TimelineDependencyArrows';
+import PresenceAvatars, { TaskEditorsMarker } from '../components/PresenceAvatars';
+import ConflictDialog from '../components/ConflictDialog';
+import { getProjectPermissions, VIEW_ONLY_MESSAGE } from '../utils/permissions';
+import { getViewerName, groupEditorsByTask } from '../utils/presence';
+import { findCachedItem, isOptimisticId } from '../utils/optimisticCache';
+import { isSameVersion, saveWithConflictCheck, type ConflictFieldSpec } from '../utils/conflicts';
+import type { NoteAction, NoteRes, TagCreateInput, TagRes, TagUpdateInput, TaskCreateInput, TaskRes, TaskUpdateInput, TaskWithNoteInput, ActionRes, ActionCreateInput, ActionUpdateInput } from '../types';
+import {
+  collectDependencyLinks,
+  computeDependencyShifts,
+  computeTaskSlack,
+  earliestAllowedRange,
+  wouldCreateCycle,
+  type RescheduleMove,
+} from '../utils/dependencies';
+import {
+  buildHeaderGroups,
+  buildScheduleFields,
+  buildTimelineColumns,
+  columnContainsDay,
+  dateToDayNumber,
+  dayNumberToDate,
+  getColumnSpan,
+  isTimelineZoom,
+  rangeOverlapsColumn,
+  resolveDayInColumn,
+  sliceHeaderGroups,
+  TIMELINE_ZOOM_LEVELS,
+  type DayRange,
+  type TimelineColumn,
+  type TimelineZoom,
+} from '../utils/timeline';
 
 dayjs.extend(customParseFormat);
 
@@ -28,10 +81,24 @@ const DESKTOP_COLUMN_COUNT = 30;
 const DESKTOP_BREAKPOINT = 1440;
 const TABLET_BREAKPOINT = 1024;
 
-interface TaskNoteCacheEntry {
-  note: NoteRes | null;
-  taskUpdatedAt: string;
-}
+// Coarser zoom levels need wider cells to fit labels such as "Sep 2026" or "Q3 2026"
+const ZOOM_CELL_WIDTHS: Record<TimelineZoom, number> = {
+  day: 45,
+  week: 56,
+  month: 96,
+  quarter: 96,
+};
+
+// The grid is virtualized, so rows and the row header column have fixed sizes
+const LIVE_STATUS_LABELS: Record<LiveUpdateStatus, string> = {
+  connecting: 'Connecting…',
+  live: 'Live',
+  reconnecting: 'Reconnecting…',
+  offline: 'Live updates unavailable',
+};
+
+const TIMELINE_ROW_HEIGHT = 64;
+const TIMELINE_ROW_HEADER_WIDTH = 250;
 
 interface TaskTimelineEntry {
   entryType: 'task';
@@ -49,6 +116,140 @@ type HoveredTimelineEntry = TimelineEntry & {
   hoveredDay: number;
 }
 
+function buildTaskUpdateInput(task: TaskRes, projectStart: Dayjs, range: DayRange): TaskUpdateInput {
+  return {
+    projectId: task.projectId,
+    title: task.title,
+    description: task.description,
+    isActivity: task.isActivity,
+    color: task.color,
+    dependencies: task.dependencies,
+    ...buildScheduleFields(projectStart, range),
+  };
+}
+
+// Update payload of an item as the server has it, so it can be compared with the user's edit
+function toScheduledInput(item: TaskRes | TagRes, projectStart: Dayjs | null) {
+  const startAt = dayjs(item.startAt);
+  const endAt = dayjs(item.endAt);
+  return {
+    projectId: item.projectId,
+    title: item.title,
+    description: item.description,
+    color: item.color,
+    duration: item.duration,
+    startAt: startAt.toISOString(),
+    endAt: endAt.toISOString(),
+    start_day: projectStart ? dateToDayNumber(projectStart, startAt) : 1,
+    end_day: projectStart ? dateToDayNumber(projectStart, endAt) : item.duration,
+  };
+}
+
+function toTaskInput(task: TaskRes, projectStart: Dayjs | null): TaskUpdateInput {
+  return {
+    ...toScheduledInput(task, projectStart),
+    isActivity: task.isActivity,
+    dependencies: task.dependencies,
+  };
+}
+
+function toTagInput(tag: TagRes, projectStart: Dayjs | null): TagUpdateInput {
+  return toScheduledInput(tag, projectStart);
+}
+
+const formatOptional = (value: string | undefined) => value?.trim() || '—';
+
+const formatSchedule = ({ startAt, endAt, duration }: TaskUpdateInput | TagUpdateInput) =>
+  `${dayjs(startAt).format('MMM D')} – ${dayjs(endAt).format('MMM D, YYYY')} (${duration} ${
+    duration === 1 ? 'day' : 'days'
+  })`;
+
+// Parts of a task or tag that can conflict; the schedule fields move together
+function scheduledItemConflictFields<T extends TagUpdateInput>(): ConflictFieldSpec<T>[] {
+  return [
+    { label: 'Title', keys: ['title'], format: (item) => item.title },
+    { label: 'Description', keys: ['description'], format: (item) => formatOptional(item.description) },
+    {
+      label: 'Schedule',
+      keys: ['startAt', 'endAt', 'start_day', 'end_day', 'duration'],
+      format: formatSchedule,
+    },
+    { label: 'Color', keys: ['color'], format: (item) => item.color ?? 'Default' },
+  ];
+}
+
+const TAG_CONFLICT_FIELDS = scheduledItemConflictFields<TagUpdateInput>();
+
+function buildTaskConflictFields(tasks: TaskRes[]): ConflictFieldSpec<TaskUpdateInput>[] {
+  const titleOf = (taskId: string) => tasks.find((task) => task.id === taskId)?.title ?? 'Unknown task';
+  return [
+    ...scheduledItemConflictFields<TaskUpdateInput>(),
+    { label: 'Activity', keys: ['isActivity'], format: (task) => (task.isActivity ? 'Yes' : 'No') },
+    {
+      label: 'Depends on',
+      keys: ['dependencies'],
+      format: (task) =>
+        task.dependencies?.length
+          ? task.dependencies
+              .map((dependency) => `${titleOf(dependency.predecessorId)} (${dependency.type})`)
+              .join(', ')
+          : 'Nothing',
+    },
+  ];
+}
+
+const ACTION_CONFLICT_FIELDS: ConflictFieldSpec<ActionUpdateInput>[] = [
+  { label: 'Details', keys: ['details'], format: (action) => action.details },
+  { label: 'Day', keys: ['day'], format: (action) => `Day ${action.day}` },
+];
+
+// Compared before an edit is undone or redone, so that changes someone else made since are kept
+const TAG_UNDO_KEYS = ['title', 'description', 'color', 'start_day', 'end_day'] as const;
+const TASK_UNDO_KEYS = [...TAG_UNDO_KEYS, 'isActivity', 'dependencies'] as const;
+const ACTION_UNDO_KEYS = ['details', 'day'] as const;
+
+/** A saved edit as undo and redo replay it: the item's fields before and after. */
+type ItemEdit =
+  | { kind: 'task'; id: string; before: TaskUpdateInput; after: TaskUpdateInput }
+  | { kind: 'tag'; id: string; before: TagUpdateInput; after: TagUpdateInput }
+  | { kind: 'action'; id: string; before: ActionUpdateInput; after: ActionUpdateInput };
+
+interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
+// Predecessors may have been deleted and restored under a new id since the task was saved
+function withCurrentDependencies<T extends TaskCreateInput>(task: T, ids: IdResolver): T {
+  return task.dependencies
+    ? {
+        ...task,
+        dependencies: task.dependencies.map((dependency) => ({
+          ...dependency,
+          predecessorId: ids.current(dependency.predecessorId),
+        })),
+      }
+    : task;
+}
+
+function actionIndexKey(taskId: string, dayNumber: number) {
+  return `${taskId}:${dayNumber}`;
+}
+
+function buildActionIndex(actions: ActionRes[]) {
+  const index = new Map<string, ActionRes[]>();
+  actions.forEach((action) => {
+    const key = actionIndexKey(action.taskId, action.day);
+    const existing = index.get(key);
+    if (existing) {
+      existing.push(action);
+    } else {
+      index.set(key, [action]);
+    }
+  });
+  return index;
+}
+
 function getVisibleColumnCount(width: number) {
   if (width >= DESKTOP_BREAKPOINT) {
     return DESKTOP_COLUMN_COUNT;
@@ -65,7 +266,8 @@ export default function ProjectDetailPage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const modalParam = searchParams.get('modal');
   const selectedTaskId = searchParams.get('taskId');
-  const isCreateModalOpen = modalParam === 'create';
+  const zoomParam = searchParams.get('zoom');
+  const zoom: TimelineZoom = isTimelineZoom(zoomParam) ? zoomParam : 'day';
 
   const {
     data: project,
@@ -73,6 +275,18 @@ export default function ProjectDetailPage() {
     isError: projectError,
     error: projectErrorData,
   } = useProject(projectId);
+  const { canEdit } = getProjectPermissions(project);
+  // The create form is reachable by URL (`?modal=create`), so check the role here too
+  const isCreateModalOpen = modalParam === 'create' && canEdit;
+  const liveStatus = useProjectLiveUpdates(projectId);
+
+  // Saves show up before the backend answers; when it rejects one, say what was reverted and why
+  // A conflict isn't reported here: the conflict dialog takes over
+  const handleRollback = (undone: string, error: unknown) => {
+    if (!isConflictError(error)) {
+      showNotification(`❌ ${getErrorMessage(error, 'The change could not be saved.')} ${undone}`, 'error');
+    }
+  };
 
   const {
     data: tagsData,
@@ -85,7 +299,7 @@ export default function ProjectDetailPage() {
     deleting: deletingTag,
     updateTag: updateTagApi,
     updating: updatingTag,
-  } = useTags(projectId);
+  } = useTags(projectId, { onRollback: handleRollback });
 
   const {
     data: tasksData,
@@ -98,210 +312,301 @@ export default function ProjectDetailPage() {
     deleting,
     updateTask,
     updating,
-  } = useTasks(projectId);
+  } = useTasks(projectId, { onRollback: handleRollback });
 
-  const tasks: TaskRes[] = tasksData?.content ?? [];
-  const tags: TagRes[] = tagsData?.content ?? [];
+  // Stable references keep the timeline memos from recomputing on every render
+  const tasks = useMemo<TaskRes[]>(() => tasksData?.content ?? [], [tasksData]);
+  const tags = useMemo<TagRes[]>(() => tagsData?.content ?? [], [tagsData]);
   
-  // Get all actions for timeline display
-  const taskIds = useMemo(() => tasks.map(task => task.id), [tasks]);
+  // Get all actions for timeline display. A task still being created has nothing to load yet.
+  const taskIds = useMemo(
+    () => tasks.filter((task) => !isOptimisticId(task.id)).map((task) => task.id),
+    [tasks],
+  );
   const {
     data: actionsData,
     isLoading: actionsLoading,
     isError: actionsError,
+    loadedTasks: tasksWithActionsLoaded,
+    totalTasks: tasksWithActions,
   } = useAllActions(taskIds);
   
-  const actions: ActionRes[] = actionsData?.content ?? [];
-  
-  const timelineEntries = useMemo<TimelineEntry[]>(() => {
-    const tagEntries: TimelineEntry[] = tags.map((tag) => ({
-      entryType: 'tag',
-      item: tag,
-    }));
-    const taskEntries: TimelineEntry[] = tasks.map((task) => ({
-      entryType: 'task',
-      item: task,
-    }));
-    return [...tagEntries, ...taskEntries];
-  }, [tags, tasks]);
-  const [taskNotes, setTaskNotes] = useState<Record<string, TaskNoteCacheEntry>>({});
-  const selectedTask = useMemo(
-    () => tasks.find((task) => task.id === selectedTaskId) ?? null,
-    [selectedTaskId, tasks],
-  );
-
-  const [selectedTaskNote, setSelectedTaskNote] = useState<TaskRes['note'] | null>(null);
-
-  useEffect(() => {
-    if (!tasks.length) {
-      setTaskNotes({});
-      return;
-    }
-
-    const validTaskIds = new Set(tasks.map((task) => task.id));
-
-    setTaskNotes((prev) => {
-      const next: Record<string, TaskNoteCacheEntry> = {};
-      let changed = false;
-
-      Object.entries(prev).forEach(([taskId, entry]) => {
-        if (validTaskIds.has(taskId)) {
-          // Check if task was updated and invalidate cache if needed
-          const currentTask = tasks.find(t => t.id === taskId);
-          if (currentTask && entry.taskUpdatedAt !== currentTask.updatedAt) {
-            // Don't include this entry - it will be refetched
-            changed = true;
-          } else {
-            next[taskId] = entry;
-          }
-        } else {
-          changed = true;
-        }
-      });
-
-      return changed ? next : prev;
+  const { createAction, updateAction, deleteAction } = useActionMutations({
+    onRollback: handleRollback,
+  });
+
+  // Edits send the `updatedAt` they started from. When someone else saved in between, the
+  // conflict dialog shows both versions and the edit is saved again with what the user kept.
+  const { resolveConflict, conflictDialogProps } = useConflictResolver();
+  const taskConflictFields = useMemo(() => buildTaskConflictFields(tasks), [tasks]);
+
+  const saveTaskEdit = (task: TaskRes, mine: TaskUpdateInput, noteAction: NoteAction) =>
+    saveWithConflictCheck({
+      base: toTaskInput(task, projectStart),
+      baseUpdatedAt: task.updatedAt,
+      mine,
+      specs: taskConflictFields,
+      save: (version, updatedAt) => updateTask(task.id, { ...version, updatedAt }, noteAction),
+      fetchLatest: async () => {
+        const latest = await getTask(task.id);
+        return { version: toTaskInput(latest, projectStart), updatedAt: latest.updatedAt };
+      },
+      resolve: resolveConflict({ kind: 'task', title: task.title }),
     });
-  }, [tasks]);
-
-  useEffect(() => {
-    if (!tasks.length) {
-      return;
-    }
-
-    const tasksNeedingNotes = tasks.filter((task) => {
-      if (task.note !== undefined) {
-        return false;
-      }
 
-      const cacheEntry = taskNotes[task.id];
-      if (!cacheEntry) {
-        return true;
-      }
-
-      return cacheEntry.taskUpdatedAt !== task.updatedAt;
+  const saveTagEdit = (tag: TagRes, mine: TagUpdateInput) =>
+    saveWithConflictCheck({
+      base: toTagInput(tag, projectStart),
+      baseUpdatedAt: tag.updatedAt,
+      mine,
+      specs: TAG_CONFLICT_FIELDS,
+      save: (version, updatedAt) => updateTagApi(tag.id, { ...version, updatedAt }),
+      fetchLatest: async () => {
+        const latest = await getTag(tag.id);
+        return { version: toTagInput(latest, projectStart), updatedAt: latest.updatedAt };
+      },
+      resolve: resolveConflict({ kind: 'tag', title: tag.title }),
     });
 
-    if (!tasksNeedingNotes.length) {
-      return;
-    }
+  const saveActionEdit = (action: ActionRes, mine: ActionUpdateInput) =>
+    saveWithConflictCheck({
+      base: { details: action.details, day: action.day },
+      baseUpdatedAt: action.updatedAt,
+      mine,
+      specs: ACTION_CONFLICT_FIELDS,
+      save: (version, updatedAt) => updateAction({ id: action.id, input: { ...version, updatedAt } }),
+      fetchLatest: async () => {
+        const latest = await getAction(action.id);
+        return { version: { details: latest.details, day: latest.day }, updatedAt: latest.updatedAt };
+      },
+      resolve: resolveConflict({ kind: 'action' }),
+    });
 
-    let ignore = false;
-
-    (async () => {
-      try {
-        const results = await Promise.all(
-          tasksNeedingNotes.map(async (task) => {
-            const response = await listNotes({ taskId: task.id, size: 1 });
-            return {
-              taskId: task.id,
-              taskUpdatedAt: task.updatedAt,
-              note: response.content[0] ?? null,
-            };
-          }),
+  const describeKeptVersion = (kind: string, title?: string) =>
+    `Kept the version of the ${kind}${title ? ` "${title}"` : ''} that someone else saved.`;
+
+  // Creates, edits, deletes and moves can be undone (Ctrl+Z) and redone (Ctrl+Shift+Z). Undo and
+  // redo go through the same mutations as the original change, so they show up and roll back alike.
+  const history = useUndoHistory(projectId);
+
+  // Sets an edited item back to one side of the edit, unless it no longer has the other side's values
+  const applyEdit = async (edit: ItemEdit, side: 'before' | 'after', ids: IdResolver) => {
+    const expected = side === 'before' ? 'after' : 'before';
+    const id = ids.current(edit.id);
+    switch (edit.kind) {
+      case 'task': {
+        const latest = await getTask(id);
+        const current = toTaskInput(latest, projectStart);
+        if (!isSameVersion(current, withCurrentDependencies(edit[expected], ids), TASK_UNDO_KEYS)) {
+          throw changedSinceError(`Task "${latest.title}"`);
+        }
+        await updateTask(
+          id,
+          { ...withCurrentDependencies(edit[side], ids), updatedAt: latest.updatedAt },
+          { type: 'none' },
         );
-
-        if (ignore) {
-          return;
+        return;
+      }
+      case 'tag': {
+        const latest = await getTag(id);
+        if (!isSameVersion(toTagInput(latest, projectStart), edit[expected], TAG_UNDO_KEYS)) {
+          throw changedSinceError(`Tag "${latest.title}"`);
         }
-
-        setTaskNotes((prev) => {
-          const next: Record<string, TaskNoteCacheEntry> = { ...prev };
-          let changed = false;
-
-          results.forEach(({ taskId, taskUpdatedAt, note }) => {
-            const existing = next[taskId];
-            if (
-              !existing ||
-              existing.taskUpdatedAt !== taskUpdatedAt ||
-              existing.note?.id !== note?.id ||
-              existing.note?.body !== note?.body
-            ) {
-              next[taskId] = { note, taskUpdatedAt };
-              changed = true;
-            }
-          });
-
-          return changed ? next : prev;
-        });
-      } catch (error) {
-        if (ignore) {
-          return;
+        await updateTagApi(id, { ...edit[side], updatedAt: latest.updatedAt });
+        return;
+      }
+      case 'action': {
+        const latest = await getAction(id);
+        const current = { details: latest.details, day: latest.day };
+        if (!isSameVersion(current, edit[expected], ACTION_UNDO_KEYS)) {
+          throw changedSinceError(`The action on Day ${latest.day}`);
         }
+        await updateAction({ id, input: { ...edit[side], updatedAt: latest.updatedAt } });
+        return;
+      }
+      default: {
+        const exhaustiveCheck: never = edit;
+        return exhaustiveCheck;
+      }
+    }
+  };
 
-        setTaskNotes((prev) => {
-          const next: Record<string, TaskNoteCacheEntry> = { ...prev };
-          let changed = false;
+  // Edits saved together (a task and the dependents it pushed) are undone together, in reverse
+  const editChange = (label: string, edits: ItemEdit[]): UndoableChange => ({
+    label,
+    undo: async (ids) => {
+      for (const edit of [...edits].reverse()) {
+        await applyEdit(edit, 'before', ids);
+      }
+    },
+    redo: async (ids) => {
+      for (const edit of edits) {
+        await applyEdit(edit, 'after', ids);
+      }
+    },
+  });
+
+  const toMoveEdits = (moves: RescheduleMove[]): ItemEdit[] =>
+    projectStart
+      ? moves.map((move) => ({
+          kind: 'task',
+          id: move.task.id,
+          before: toTaskInput(move.task, projectStart),
+          after: buildTaskUpdateInput(move.task, projectStart, move.to),
+        }))
+      : [];
+
+  const taskCreation = (task: TaskRes, noteAction: NoteAction) =>
+    createOrDeleteChange(
+      `creating task "${task.title}"`,
+      'created',
+      task.id,
+      (ids) =>
+        createTask({ task: withCurrentDependencies(toTaskInput(task, projectStart), ids), noteAction }),
+      deleteTask,
+    );
 
-          tasksNeedingNotes.forEach((task) => {
-            const existing = next[task.id];
-            if (!existing || existing.taskUpdatedAt !== task.updatedAt || existing.note !== null) {
-              next[task.id] = { note: null, taskUpdatedAt: task.updatedAt };
-              changed = true;
-            }
-          });
+  // The backend deletes a task's notes and actions along with it and drops the links to it, so
+  // bringing the task back restores those as well. Taken before the delete; the notes are loaded
+  // by task, since older task notes aren't in the project's note list.
+  const taskDeletion = async (task: TaskRes) => {
+    const notes = [...(await queryClient.fetchQuery(taskNotesQueryOptions(task.id)))].reverse();
+    const taskActions = actions.filter((action) => action.taskId === task.id);
+    const dependents = tasks.flatMap((item) =>
+      (item.dependencies ?? [])
+        .filter((dependency) => dependency.predecessorId === task.id)
+        .map(({ type }) => ({ taskId: item.id, type })),
+    );
 
-          return changed ? next : prev;
+    const restore = async (ids: IdResolver) => {
+      const previousId = ids.current(task.id);
+      const restored = await createTask({
+        task: withCurrentDependencies(toTaskInput(task, projectStart), ids),
+        noteAction: { type: 'none' },
+      });
+      for (const note of notes) {
+        const restoredNote = await createNote({
+          taskId: restored.id,
+          projectId: restored.projectId,
+          body: note.body,
         });
+        ids.replace(note.id, restoredNote.id);
       }
-    })();
-
-    return () => {
-      ignore = true;
+      for (const action of taskActions) {
+        const restoredAction = await createAction({
+          taskId: restored.id,
+          details: action.details,
+          day: action.day,
+        });
+        ids.replace(action.id, restoredAction.id);
+      }
+      for (const { taskId, type } of dependents) {
+        const dependent = await getTask(ids.current(taskId));
+        const dependencies = (dependent.dependencies ?? []).filter(
+          ({ predecessorId }) => predecessorId !== previousId && predecessorId !== restored.id,
+        );
+        await updateTask(
+          dependent.id,
+          {
+            ...toTaskInput(dependent, projectStart),
+            dependencies: [...dependencies, { predecessorId: restored.id, type }],
+            updatedAt: dependent.updatedAt,
+          },
+          { type: 'none' },
+        );
+      }
+      await queryClient.invalidateQueries({ queryKey: ['notes'] });
+      return restored;
     };
-  }, [taskNotes, tasks]);
-
-  useEffect(() => {
-    if (!selectedTask) {
-      setSelectedTaskNote(null);
-      return;
-    }
 
-    setSelectedTaskNote(selectedTask.note ?? taskNotes[selectedTask.id]?.note ?? null);
+    return createOrDeleteChange(`deleting task "${task.title}"`, 'deleted', task.id, restore, deleteTask);
+  };
 
-    if (modalParam !== 'edit' || selectedTask.note) {
-      return;
-    }
+  const tagCreationOrDeletion = (tag: TagRes, change: 'created' | 'deleted') =>
+    createOrDeleteChange(
+      `${change === 'created' ? 'creating' : 'deleting'} tag "${tag.title}"`,
+      change,
+      tag.id,
+      () => createTag(toTagInput(tag, projectStart)),
+      deleteTagApi,
+    );
 
-    let ignore = false;
+  const actionCreationOrDeletion = (action: ActionRes, change: 'created' | 'deleted') =>
+    createOrDeleteChange(
+      `${change === 'created' ? 'adding' : 'deleting'} the action on Day ${action.day}`,
+      change,
+      action.id,
+      (ids) =>
+        createAction({ taskId: ids.current(action.taskId), details: action.details, day: action.day }),
+      deleteAction,
+    );
 
-    (async () => {
-      try {
-        const response = await listNotes({ taskId: selectedTask.id, size: 1 });
-        if (!ignore) {
-          setSelectedTaskNote(response.content[0] ?? null);
-        }
-      } catch (error) {
-        if (!ignore) {
-          setSelectedTaskNote(null);
-        }
+  const handleUndo = async () => {
+    try {
+      const change = await history.undo();
+      if (change) {
+        showNotification(`↩️ Undid ${change.label}`, 'success', {
+          label: 'Redo',
+          onClick: () => void handleRedo(),
+        });
       }
-    })();
-
-    return () => {
-      ignore = true;
-    };
-  }, [modalParam, selectedTask, taskNotes]);
-
-  const taskForModal = useMemo<TaskRes | null>(() => {
-    if (!selectedTask) {
-      return null;
+    } catch (error) {
+      showNotification(`❌ Could not undo: ${getErrorMessage(error, 'The change could not be reversed.')}`, 'error');
     }
+  };
 
-    if (modalParam !== 'edit') {
-      return selectedTask;
+  const handleRedo = async () => {
+    try {
+      const change = await history.redo();
+      if (change) {
+        showNotification(`↪️ Redid ${change.label}`, 'success', {
+          label: 'Undo',
+          onClick: () => void handleUndo(),
+        });
+      }
+    } catch (error) {
+      showNotification(`❌ Could not redo: ${getErrorMessage(error, 'The change could not be made again.')}`, 'error');
     }
+  };
 
-    const effectiveNote = selectedTaskNote ?? selectedTask.note ?? null;
+  useUndoShortcuts(() => void handleUndo(), () => void handleRedo(), canEdit);
 
-    if (selectedTask.note === effectiveNote) {
-      return selectedTask.note === undefined ? { ...selectedTask, note: null } : selectedTask;
-    }
+  // Records a change for undo and confirms it with an Undo button
+  const confirmChange = (message: string, change: UndoableChange) => {
+    history.record(change);
+    showNotification(message, 'success', { label: 'Undo', onClick: () => void handleUndo() });
+  };
+
+  const actions = useMemo<ActionRes[]>(() => actionsData.content, [actionsData]);
+  const actionIndex = useMemo(() => buildActionIndex(actions), [actions]);
+  
+  const timelineEntries = useMemo<TimelineEntry[]>(() => {
+    const tagEntries: TimelineEntry[] = tags.map((tag) => ({
+      entryType: 'tag',
+      item: tag,
+    }));
+    const taskEntries: TimelineEntry[] = tasks.map((task) => ({
+      entryType: 'task',
+      item: task,
+    }));
+    return [...tagEntries, ...taskEntries];
+  }, [tags, tasks]);
+  const { latestNoteByTask: taskNotes } = useProjectNotes(projectId, taskIds);
+  const selectedTask = useMemo(
+    () => tasks.find((task) => task.id === selectedTaskId) ?? null,
+    [selectedTaskId, tasks],
+  );
 
-    return { ...selectedTask, note: effectiveNote };
-  }, [modalParam, selectedTask, selectedTaskNote]);
 
-  const isEditModalOpen = modalParam === 'edit' && Boolean(selectedTask);
-  const isDeleteModalOpen = modalParam === 'delete' && Boolean(selectedTask);
+  const isEditModalOpen = modalParam === 'edit' && Boolean(selectedTask) && canEdit;
+
+  // Who else has the project open, and which task forms they are in, so edits don't collide unseen
+  const otherViewers = useProjectPresence(
+    projectId,
+    isEditModalOpen && selectedTask ? selectedTask.id : null,
+  );
+  const editorsByTask = useMemo(() => groupEditorsByTask(otherViewers), [otherViewers]);
+  const isDeleteModalOpen = modalParam === 'delete' && Boolean(selectedTask) && canEdit;
   const [isTagModalOpen, setIsTagModalOpen] = useState(false);
   const [tagModalMode, setTagModalMode] = useState<'create' | 'edit'>('create');
   const [tagForModal, setTagForModal] = useState<TagRes | null>(null);
@@ -323,8 +628,17 @@ export default function ProjectDetailPage() {
   const [isActionEditMode, setIsActionEditMode] = useState(false);
   
   // Notification state for testing
-  const [notification, setNotification] = useState<{message: string; type: 'success' | 'error'} | null>(null);
+  const [notification, setNotification] = useState<{
+    message: string;
+    type: 'success' | 'error';
+    action?: NotificationAction;
+  } | null>(null);
+  const notificationTimerRef = useRef<ReturnType<typeof setTimeout>>();
   const [isTaskListModalOpen, setIsTaskListModalOpen] = useState(false);
+  const [reschedulePreview, setReschedulePreview] = useState<RescheduleMove[] | null>(null);
+  const rescheduleResolverRef = useRef<((confirmed: boolean) => void) | null>(null);
+  const timelineTableRef = useRef<HTMLTableElement>(null);
+  const timelineScrollRef = useRef<HTMLDivElement>(null);
 
   const projectStart = useMemo(() => {
     if (!project?.startDate) {
@@ -353,12 +667,12 @@ export default function ProjectDetailPage() {
     if (!projectStart) {
       return {
         columnCount: MINIMUM_DAY_COLUMNS,
-        taskDayRange: new Map<string, { start: number; end: number }>(),
+        taskDayRange: new Map<string, DayRange>(),
       };
     }
 
     let maxDay = 0;
-    const rangeMap = new Map<string, { start: number; end: number }>();
+    const rangeMap = new Map<string, DayRange>();
 
     timelineEntries.forEach(({ item }) => {
       const rawStartDate = item.startAt ? dayjs(item.startAt) : null;
@@ -421,11 +735,37 @@ export default function ProjectDetailPage() {
     return { columnCount: paddedColumnCount, taskDayRange: rangeMap };
   }, [projectStart, timelineEntries]);
 
-  const dayColumns = useMemo(
-    () => Array.from({ length: columnCount }, (_, index) => index + 1),
-    [columnCount],
+  const timelineColumns = useMemo(
+    () => buildTimelineColumns(zoom, columnCount, projectStart),
+    [columnCount, projectStart, zoom],
   );
 
+  const headerGroups = useMemo(
+    () => (projectStart ? buildHeaderGroups(timelineColumns, zoom, projectStart) : []),
+    [projectStart, timelineColumns, zoom],
+  );
+
+  const todayDayNumber = useMemo(
+    () => (projectStart ? dateToDayNumber(projectStart, dayjs()) : null),
+    [projectStart],
+  );
+
+  const columnHighlights = useMemo(
+    () =>
+      timelineColumns.map((column) => {
+        const weekday = projectStart ? dayNumberToDate(projectStart, column.startDay).day() : null;
+        return {
+          isWeekend: zoom === 'day' && (weekday === 0 || weekday === 6),
+          isToday: todayDayNumber !== null && columnContainsDay(column, todayDayNumber),
+        };
+      }),
+    [projectStart, timelineColumns, todayDayNumber, zoom],
+  );
+
+  const dependencyLinks = useMemo(() => collectDependencyLinks(tasks), [tasks]);
+
+  const taskSlack = useMemo(() => computeTaskSlack(tasks, taskDayRange), [taskDayRange, tasks]);
+
   const [viewportWidth, setViewportWidth] = useState(() =>
     typeof window === 'undefined' ? DESKTOP_BREAKPOINT : window.innerWidth,
   );
@@ -449,9 +789,36 @@ export default function ProjectDetailPage() {
     () =>
       ({
         '--project-grid-visible-columns': visibleColumnCount,
-        '--project-grid-total-columns': columnCount,
+        '--project-grid-total-columns': timelineColumns.length,
+        '--project-grid-cell-width': `${ZOOM_CELL_WIDTHS[zoom]}px`,
+        '--project-grid-row-header-width': `${TIMELINE_ROW_HEADER_WIDTH}px`,
+        '--project-grid-row-height': `${TIMELINE_ROW_HEIGHT}px`,
       }) as CSSProperties,
-    [columnCount, visibleColumnCount],
+    [timelineColumns.length, visibleColumnCount, zoom],
+  );
+
+  const gridWindow = useGridVirtualizer({
+    scrollRef: timelineScrollRef,
+    rowCount: timelineEntries.length,
+    rowHeight: TIMELINE_ROW_HEIGHT,
+    columnCount: timelineColumns.length,
+    columnWidth: ZOOM_CELL_WIDTHS[zoom],
+    stickyWidth: TIMELINE_ROW_HEADER_WIDTH,
+  });
+
+  const renderedColumns = timelineColumns.slice(gridWindow.columnStart, gridWindow.columnEnd);
+  const renderedEntries = timelineEntries.slice(gridWindow.rowStart, gridWindow.rowEnd);
+  const leadingColumnCount = gridWindow.columnStart;
+  const trailingColumnCount = Math.max(0, timelineColumns.length - gridWindow.columnEnd);
+
+  const renderedHeaderGroups = useMemo(
+    () => sliceHeaderGroups(headerGroups, gridWindow.columnStart, gridWindow.columnEnd),
+    [gridWindow.columnEnd, gridWindow.columnStart, headerGroups],
+  );
+
+  const entryRowIndex = useMemo(
+    () => new Map(timelineEntries.map((entry, index) => [entry.item.id, index])),
+    [timelineEntries],
   );
 
   const timelineLoading = tasksLoading || tagsLoading;
@@ -478,23 +845,29 @@ export default function ProjectDetailPage() {
     setTagForModal(null);
   };
 
+  // Errors propagate to TagModal, which keeps the form open and shows them next to the inputs
   const handleSubmitTag = async (input: TagCreateInput) => {
-    try {
-      if (tagModalMode === 'edit' && tagForModal) {
-        await updateTagApi(tagForModal.id, input);
-        showNotification(`✅ Tag "${input.title}" updated successfully!`, 'success');
-        handleCloseTagModal();
-        return;
+    if (tagModalMode === 'edit' && tagForModal) {
+      if ((await saveTagEdit(tagForModal, input)) === 'saved') {
+        confirmChange(
+          `✅ Tag "${input.title}" updated successfully!`,
+          editChange(`editing tag "${input.title}"`, [
+            { kind: 'tag', id: tagForModal.id, before: toTagInput(tagForModal, projectStart), after: input },
+          ]),
+        );
+      } else {
+        showNotification(describeKeptVersion('tag', tagForModal.title), 'success');
       }
-
-      await createTag(input);
-      showNotification(`✅ Tag "${input.title}" created successfully!`, 'success');
       handleCloseTagModal();
-    } catch (error) {
-      const action = tagModalMode === 'edit' ? 'update' : 'create';
-      const errorMessage = error instanceof Error ? error.message : `Failed to ${action} tag`;
-      showNotification(`❌ ${errorMessage}`, 'error');
+      return;
     }
+
+    const createdTag = await createTag(input);
+    confirmChange(
+      `✅ Tag "${input.title}" created successfully!`,
+      tagCreationOrDeletion(createdTag, 'created'),
+    );
+    handleCloseTagModal();
   };
 
   const handleEditTagRequest = (tagId: string) => {
@@ -532,13 +905,13 @@ export default function ProjectDetailPage() {
     }
     setTagDeleteError(null);
     try {
+      const change = tagCreationOrDeletion(tagToDelete, 'deleted');
       await deleteTagApi(tagToDelete.id);
-      showNotification(`✅ Tag "${tagToDelete.title}" deleted successfully!`, 'success');
+      confirmChange(`✅ Tag "${tagToDelete.title}" deleted successfully!`, change);
       handleCloseDeleteTagModal();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to delete tag';
-      setTagDeleteError(errorMessage);
-      showNotification(`❌ ${errorMessage}`, 'error');
+      // The rollback notification has already told the user the tag was put back
+      setTagDeleteError(getErrorMessage(error, 'Failed to delete tag'));
     }
   };
 
@@ -575,36 +948,117 @@ export default function ProjectDetailPage() {
     setDeleteError(null);
   };
 
+  // Errors propagate to TaskModal, which keeps the form open and shows them next to the inputs
   const handleCreateTask = async (input: TaskWithNoteInput) => {
-    try {
-      await createTask(input);
-      showNotification(`✅ Task "${input.task.title}" created successfully!`, 'success');
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to create task';
-      showNotification(`❌ ${errorMessage}`, 'error');
+    const createdTask = await createTask(input);
+    confirmChange(
+      `✅ Task "${input.task.title}" created successfully!`,
+      taskCreation(createdTask, input.noteAction),
+    );
+  };
+
+  const buildRescheduleMoves = (shifts: Map<string, DayRange>): RescheduleMove[] =>
+    Array.from(shifts).flatMap(([taskId, to]) => {
+      const task = tasks.find((item) => item.id === taskId);
+      const from = taskDayRange.get(taskId);
+      return task && from ? [{ task, from, to }] : [];
+    });
+
+  // Opens the reschedule preview and resolves once the user confirms or cancels it
+  const requestRescheduleConfirmation = (moves: RescheduleMove[]) =>
+    new Promise<boolean>((resolve) => {
+      rescheduleResolverRef.current = resolve;
+      setReschedulePreview(moves);
+    });
+
+  const handleResolveReschedule = (confirmed: boolean) => {
+    rescheduleResolverRef.current?.(confirmed);
+    rescheduleResolverRef.current = null;
+    setReschedulePreview(null);
+  };
+
+  // Dependents are saved like any other edit: if someone else changed one meanwhile, the conflict
+  // dialog asks which version to keep. Resolves with the moves that were saved.
+  const applyRescheduleMoves = async (moves: RescheduleMove[]) => {
+    if (!projectStart) {
+      return [];
+    }
+    const saved: RescheduleMove[] = [];
+    for (const move of moves) {
+      const outcome = await saveTaskEdit(
+        move.task,
+        buildTaskUpdateInput(move.task, projectStart, move.to),
+        { type: 'none' },
+      );
+      if (outcome === 'saved') {
+        saved.push(move);
+      }
     }
+    return saved;
   };
 
+  const describeDependentMoves = (moves: RescheduleMove[]) =>
+    moves.length
+      ? ` (${moves.length} dependent ${moves.length === 1 ? 'task' : 'tasks'} shifted)`
+      : '';
+
   const handleUpdateTask = async (input: TaskWithNoteInput) => {
     if (!selectedTask) {
       return;
     }
-    try {
-      await updateTask(selectedTask.id, input.task, input.noteAction);
-      
-      // Clear the cache for this task so it gets fresh data
-      setTaskNotes((prev) => {
-        const next = { ...prev };
-        delete next[selectedTask.id];
-        return next;
-      });
-      
-      showNotification(`✅ Task "${input.task.title}" updated successfully!`, 'success');
+
+    // The links as edited in the form, not the cached ones: new predecessors count as well
+    const editedTasks = tasks.map((task) =>
+      task.id === selectedTask.id ? { ...task, dependencies: input.task.dependencies } : task,
+    );
+    const cyclicPredecessor = (input.task.dependencies ?? []).find(({ predecessorId }) =>
+      wouldCreateCycle(editedTasks, selectedTask.id, predecessorId),
+    );
+    if (cyclicPredecessor) {
+      const title = tasks.find((task) => task.id === cyclicPredecessor.predecessorId)?.title;
+      throw new Error(
+        `"${title ?? 'Unknown task'}" already depends on this task, so it can't be a predecessor.`,
+      );
+    }
+
+    const range = { start: input.task.start_day, end: input.task.end_day };
+    const earliest = earliestAllowedRange(editedTasks, taskDayRange, selectedTask.id, range);
+    if (earliest.start !== range.start) {
+      // Thrown so the task form stays open; the user decides where the task goes
+      throw new Error(
+        `Its predecessors don't allow this schedule: start the task on Day ${earliest.start} or later.`,
+      );
+    }
+
+    const moves = buildRescheduleMoves(
+      computeDependencyShifts(editedTasks, taskDayRange, new Map([[selectedTask.id, range]])),
+    );
+    if (moves.length && !(await requestRescheduleConfirmation(moves))) {
+      // Thrown so the task form stays open with the user's input
+      throw new Error('Save cancelled. Dependent tasks were left unchanged.');
+    }
+
+    if ((await saveTaskEdit(selectedTask, input.task, input.noteAction)) === 'theirs') {
+      // Their schedule stands, so the dependents stay where they are
+      showNotification(describeKeptVersion('task', selectedTask.title), 'success');
       handleCloseModal();
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to update task';
-      showNotification(`❌ ${errorMessage}`, 'error');
+      return;
     }
+    const savedMoves = await applyRescheduleMoves(moves);
+
+    confirmChange(
+      `✅ Task "${input.task.title}" updated successfully!${describeDependentMoves(savedMoves)}`,
+      editChange(`editing task "${input.task.title}"`, [
+        {
+          kind: 'task',
+          id: selectedTask.id,
+          before: toTaskInput(selectedTask, projectStart),
+          after: input.task,
+        },
+        ...toMoveEdits(savedMoves),
+      ]),
+    );
+    handleCloseModal();
   };
 
   const handleDeleteTaskConfirm = async () => {
@@ -613,17 +1067,20 @@ export default function ProjectDetailPage() {
     }
     setDeleteError(null);
     try {
+      const change = await taskDeletion(selectedTask);
       await deleteTask(selectedTask.id);
-      showNotification(`✅ Task "${selectedTask.title}" deleted successfully!`, 'success');
+      confirmChange(`✅ Task "${selectedTask.title}" deleted successfully!`, change);
       handleCloseModal();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to delete task';
-      setDeleteError(errorMessage);
-      showNotification(`❌ ${errorMessage}`, 'error');
+      // The rollback notification has already told the user the task was put back
+      setDeleteError(getErrorMessage(error, 'Failed to delete task'));
     }
   };
 
   const handleTimelineHover = (entry: TimelineEntry, day: number, event: React.MouseEvent) => {
+    if (dragState) {
+      return;
+    }
     setHoveredItem({ ...entry, hoveredDay: day });
     setTooltipPosition({ x: event.clientX, y: event.clientY });
   };
@@ -643,24 +1100,134 @@ export default function ProjectDetailPage() {
   };
 
   // Notification helper
-  const showNotification = (message: string, type: 'success' | 'error') => {
-    setNotification({ message, type });
-    setTimeout(() => setNotification(null), 5000); // Auto-hide after 5 seconds
+  const showNotification = (
+    message: string,
+    type: 'success' | 'error',
+    action?: NotificationAction,
+  ) => {
+    setNotification({ message, type, action });
+    // Restarted per notification, so a new one (e.g. with an Undo button) gets its full 5 seconds
+    clearTimeout(notificationTimerRef.current);
+    notificationTimerRef.current = setTimeout(() => setNotification(null), 5000);
+  };
+
+  const handleTimelineDragCommit = async (itemId: string, range: DayRange) => {
+    const entry = timelineEntries.find(({ item }) => item.id === itemId);
+    if (!entry || !projectStart) {
+      return;
+    }
+
+    const schedule = buildScheduleFields(projectStart, range);
+    const label = entry.entryType === 'task' ? 'Task' : 'Tag';
+
+    const moves =
+      entry.entryType === 'task'
+        ? buildRescheduleMoves(computeDependencyShifts(tasks, taskDayRange, new Map([[itemId, range]])))
+        : [];
+    if (moves.length && !(await requestRescheduleConfirmation(moves))) {
+      return;
+    }
+
+    try {
+      let edit: ItemEdit;
+      let outcome: 'saved' | 'theirs';
+      if (entry.entryType === 'task') {
+        const after = buildTaskUpdateInput(entry.item, projectStart, range);
+        edit = { kind: 'task', id: itemId, before: toTaskInput(entry.item, projectStart), after };
+        outcome = await saveTaskEdit(entry.item, after, { type: 'none' });
+      } else {
+        const after = {
+          projectId: entry.item.projectId,
+          title: entry.item.title,
+          description: entry.item.description,
+          color: entry.item.color,
+          ...schedule,
+        };
+        edit = { kind: 'tag', id: itemId, before: toTagInput(entry.item, projectStart), after };
+        outcome = await saveTagEdit(entry.item, after);
+      }
+      if (outcome === 'theirs') {
+        showNotification(describeKeptVersion(label.toLowerCase(), entry.item.title), 'success');
+        return;
+      }
+      const savedMoves = await applyRescheduleMoves(moves);
+      confirmChange(
+        `✅ ${label} "${entry.item.title}" moved to Day ${range.start}–${range.end}${describeDependentMoves(savedMoves)}`,
+        editChange(`moving ${label.toLowerCase()} "${entry.item.title}"`, [
+          edit,
+          ...toMoveEdits(savedMoves),
+        ]),
+      );
+    } catch (error) {
+      // A failed request has already moved the bar back and said why; a cancelled conflict
+      // dialog hasn't been reported yet
+      if (!(error instanceof ApiError)) {
+        showNotification(`❌ ${getErrorMessage(error, 'The move could not be saved.')}`, 'error');
+      }
+    }
+  };
+
+  const { dragState, beginDrag, consumeClickSuppression } = useTimelineDrag({
+    onCommit: handleTimelineDragCommit,
+  });
+
+  // Successors that would be pushed forward by the bar currently being dragged
+  const dependencyPreview = useMemo(
+    () =>
+      dragState
+        ? computeDependencyShifts(tasks, taskDayRange, new Map([[dragState.itemId, dragState.preview]]))
+        : new Map<string, DayRange>(),
+    [dragState, taskDayRange, tasks],
+  );
+
+  const visibleRanges = useMemo(() => {
+    const ranges = new Map(taskDayRange);
+    if (dragState) {
+      ranges.set(dragState.itemId, dragState.preview);
+    }
+    dependencyPreview.forEach((range, taskId) => ranges.set(taskId, range));
+    return ranges;
+  }, [dependencyPreview, dragState, taskDayRange]);
+
+  const dependencyPreviewIds = useMemo(
+    () => new Set(dependencyPreview.keys()),
+    [dependencyPreview],
+  );
+
+  const handleBarMouseDown = (
+    event: React.MouseEvent<HTMLElement>,
+    itemId: string,
+    mode: TimelineDragMode,
+    column: TimelineColumn,
+  ) => {
+    const range = taskDayRange.get(itemId);
+    if (!range || !projectStart || dragState?.committing) {
+      return;
+    }
+    beginDrag(event, itemId, range, mode, getColumnSpan(column));
+  };
+
+  const handleZoomChange = (nextZoom: TimelineZoom) => {
+    const next = new URLSearchParams(searchParams);
+    if (nextZoom === 'day') {
+      next.delete('zoom');
+    } else {
+      next.set('zoom', nextZoom);
+    }
+    setSearchParams(next, { replace: true });
   };
 
   // Action-related handlers
   const handleCellClick = (taskId: string, dayNumber: number) => {
     // Check if there's already an action for this day
-    const existingAction = actions.find(action => 
-      action.taskId === taskId && action.day === dayNumber
-    );
+    const existingAction = actionIndex.get(actionIndexKey(taskId, dayNumber))?.[0];
     
     if (existingAction) {
       // Show existing action
       setActionToView(existingAction);
       setIsActionEditMode(false);
       setIsActionViewModalOpen(true);
-    } else {
+    } else if (canEdit) {
       // Prompt to create new action
       setSelectedCellInfo({ taskId, dayNumber });
       setIsActionConfirmModalOpen(true);
@@ -692,67 +1259,46 @@ export default function ProjectDetailPage() {
     setIsActionEditMode(true);
   };
 
+  // Action errors propagate to the action modals, which keep the form open and show them;
+  // the rollback notification says what was reverted
   const handleActionSave = async (details: string) => {
     if (!actionToView) {
-      console.error('handleActionSave: No action to view');
       showNotification('❌ No action selected for update', 'error');
       return;
     }
-    
-    console.log('handleActionSave: Starting update for action:', actionToView);
-    console.log('handleActionSave: New details:', details);
-    
-    try {
-      const { updateAction } = await import('../api/actions');
-      console.log('handleActionSave: Calling updateAction with ID:', actionToView.id);
-      
-      const updatedAction = await updateAction(actionToView.id, { 
-        details, 
-        day: actionToView.day 
-      });
-      console.log('handleActionSave: Update successful:', updatedAction);
-      
-      // Trigger refetch of actions
-      queryClient.invalidateQueries({ queryKey: ['actions'] });
-      
-      // Update the local action data and exit edit mode
-      setActionToView({ ...actionToView, details });
-      setIsActionEditMode(false);
-      
-      showNotification(`✅ Action updated successfully!`, 'success');
-    } catch (error) {
-      console.error('handleActionSave: Update failed:', error);
-      
-      let errorMessage = 'Unknown error';
-      if (error instanceof Error) {
-        if (error.message.includes('CORS') || error.message.includes('Access-Control-Allow-Origin')) {
-          errorMessage = 'CORS error - backend needs to allow requests from this domain';
-        } else if (error.message.includes('fetch')) {
-          errorMessage = 'Network error - check if backend is running';
-        } else if (error.message.includes('404')) {
-          errorMessage = 'Action not found - may have been deleted';
-        } else {
-          errorMessage = error.message;
-        }
-      }
-      
-      showNotification(`❌ Failed to update action: ${errorMessage}`, 'error');
-      throw error;
+
+    if ((await saveActionEdit(actionToView, { details, day: actionToView.day })) === 'theirs') {
+      showNotification(describeKeptVersion('action'), 'success');
+      handleCloseActionViewModal();
+      return;
     }
+
+    // Show the action as saved and exit edit mode. The cache holds the saved version, with the
+    // `updatedAt` a further edit in this dialog has to send
+    setActionToView(
+      findCachedItem<ActionRes>(['actions'], actionToView.id) ?? { ...actionToView, details },
+    );
+    setIsActionEditMode(false);
+
+    confirmChange(
+      `✅ Action updated successfully!`,
+      editChange(`editing the action on Day ${actionToView.day}`, [
+        {
+          kind: 'action',
+          id: actionToView.id,
+          before: { details: actionToView.details, day: actionToView.day },
+          after: { details, day: actionToView.day },
+        },
+      ]),
+    );
   };
 
   const handleActionDelete = async () => {
     if (!actionToView) return;
-    
-    try {
-      const { deleteAction } = await import('../api/actions');
-      await deleteAction(actionToView.id);
-      // Trigger refetch of actions
-      queryClient.invalidateQueries({ queryKey: ['actions'] });
-    } catch (error) {
-      console.error('Failed to delete action:', error);
-      throw error;
-    }
+
+    const change = actionCreationOrDeletion(actionToView, 'deleted');
+    await deleteAction(actionToView.id);
+    confirmChange(`✅ Action on Day ${actionToView.day} deleted successfully!`, change);
   };
 
   const handleCreateAction = async (details: string) => {
@@ -761,53 +1307,17 @@ export default function ProjectDetailPage() {
       showNotification(errorMsg, 'error');
       throw new Error(errorMsg);
     }
-    
-    const actionData = {
+
+    const createdAction = await createAction({
       taskId: selectedCellInfo.taskId,
       details,
-      day: selectedCellInfo.dayNumber
-    };
-    
-    showNotification(`Creating action for Day ${selectedCellInfo.dayNumber}...`, 'success');
-    
-    try {
-      const { createAction } = await import('../api/actions');
-      
-      const newAction = await createAction(actionData);
-      
-      // Trigger refetch of actions
-      queryClient.invalidateQueries({ queryKey: ['actions'] });
-      
-      showNotification(`✅ Action created successfully for Day ${selectedCellInfo.dayNumber}!`, 'success');
-      
-    } catch (error) {
-      let errorMessage = 'Failed to create action';
-      
-      if (error instanceof Error) {
-        // Check for common error types
-        if (error.message.includes('fetch') || error.name === 'TypeError') {
-          errorMessage = `🌐 Network Error: Check console for URL details. Backend may not be running.`;
-        } else if (error.message.includes('404')) {
-          errorMessage = '🔍 API endpoint not found (404) - /actions endpoint missing';
-        } else if (error.message.includes('500')) {
-          errorMessage = '💥 Server error (500): Check backend logs';
-        } else if (error.message.includes('400')) {
-          errorMessage = '❌ Bad request (400): Check data format in console';
-        } else {
-          errorMessage = `❌ Error: ${error.message}`;
-        }
-      }
-      
-      // Also show the error in a longer notification for debugging
-      showNotification(errorMessage, 'error');
-      
-      // Log additional debugging info
-      console.error('🔧 DEBUGGING INFO:');
-      console.error('Selected cell info:', selectedCellInfo);
-      console.error('Action data sent:', actionData);
-      
-      throw error;
-    }
+      day: selectedCellInfo.dayNumber,
+    });
+
+    confirmChange(
+      `✅ Action created successfully for Day ${selectedCellInfo.dayNumber}!`,
+      actionCreationOrDeletion(createdAction, 'created'),
+    );
   };
 
   const projectTitle = project?.name ?? (projectLoading ? 'Loading…' : 'Project');
@@ -886,7 +1396,15 @@ export default function ProjectDetailPage() {
           <h2 className="project-detail__title">{projectTitle}</h2>
           {projectError ? <p className="error-message">{projectDescription}</p> : null}
         </div>
-
+        <PresenceAvatars
+          viewers={otherViewers}
+          getTaskTitle={(taskId) => tasks.find((task) => task.id === taskId)?.title}
+        />
+        {liveStatus ? (
+          <span className={`live-status live-status--${liveStatus}`} role="status">
+            {LIVE_STATUS_LABELS[liveStatus]}
+          </span>
+        ) : null}
       </div>
 
       {project && project.description ? (
@@ -900,7 +1418,9 @@ export default function ProjectDetailPage() {
             color: '#6b7280',
             fontSize: '14px',
           }}>
-            Click on any task colored cell to create an action for that day
+            Click on any task colored cell to create an action for that day. Drag a bar to move it,
+            or drag its edges to change the start or end day (Esc cancels). Bars outlined in red are on
+            the critical path.
           </p>
           {projectStartLabel ? (
             <p className="project-detail__events-meta">
@@ -908,42 +1428,174 @@ export default function ProjectDetailPage() {
               <time dateTime={projectStartDateTime}>{projectStartLabel}</time>
             </p>
           ) : null}
+          {actionsLoading ? (
+            <p className="project-detail__events-meta" role="status">
+              Loading actions… {tasksWithActionsLoaded}/{tasksWithActions} tasks
+            </p>
+          ) : null}
+          {actionsError ? (
+            <p className="error-message">Some actions failed to load; the timeline may be missing them.</p>
+          ) : null}
+          <div className="timeline-zoom" role="group" aria-label="Timeline zoom">
+            {TIMELINE_ZOOM_LEVELS.map((level) => (
+              <button
+                key={level.value}
+                type="button"
+                className={[
+                  'timeline-zoom__button',
+                  level.value === zoom ? 'timeline-zoom__button--active' : '',
+                ]
+                  .filter(Boolean)
+                  .join(' ')}
+                aria-pressed={level.value === zoom}
+                onClick={() => handleZoomChange(level.value)}
+              >
+                {level.label}
+              </button>
+            ))}
+          </div>
         </header>
         {timelineLoading ? <p>Loading events…</p> : null}
         {tasksError ? (
           <p className="error-message">
-            {tasksErrorData instanceof Error ? tasksErrorData.message : 'Failed to load events'}
+            {getErrorMessage(tasksErrorData, 'Failed to load events')}
           </p>
         ) : null}
         {tagsError ? (
           <p className="error-message">
-            {tagsErrorData instanceof Error ? tagsErrorData.message : 'Failed to load tags'}
+            {getErrorMessage(tagsErrorData, 'Failed to load tags')}
           </p>
         ) : null}
         <div className="project-grid">
-          <div className="project-grid__table-wrapper" style={tableWrapperStyles}>
-            <table className="project-grid__table">
+          <div
+            className={[
+              'project-grid__table-wrapper',
+              dragState ? 'project-grid__table-wrapper--dragging' : '',
+            ]
+              .filter(Boolean)
+              .join(' ')}
+            style={tableWrapperStyles}
+            ref={timelineScrollRef}
+          >
+            <table
+              className="project-grid__table"
+              ref={timelineTableRef}
+              style={{
+                width: TIMELINE_ROW_HEADER_WIDTH + timelineColumns.length * ZOOM_CELL_WIDTHS[zoom],
+              }}
+            >
+              <colgroup>
+                <col style={{ width: TIMELINE_ROW_HEADER_WIDTH }} />
+                {timelineColumns.map((column) => (
+                  <col key={column.key} style={{ width: ZOOM_CELL_WIDTHS[zoom] }} />
+                ))}
+              </colgroup>
               <thead>
+                {headerGroups.length ? (
+                  <tr>
+                    <th
+                      scope="col"
+                      rowSpan={2}
+                      className="project-grid__header project-grid__header--title"
+                    >
+                      Task/Tag
+                    </th>
+                    {leadingColumnCount ? (
+                      <th colSpan={leadingColumnCount} className="project-grid__spacer" aria-hidden="true" />
+                    ) : null}
+                    {renderedHeaderGroups.map((group) => (
+                      <th
+                        key={group.key}
+                        scope="colgroup"
+                        colSpan={group.span}
+                        className="project-grid__header project-grid__header--group"
+                      >
+                        {group.label}
+                      </th>
+                    ))}
+                    {trailingColumnCount ? (
+                      <th colSpan={trailingColumnCount} className="project-grid__spacer" aria-hidden="true" />
+                    ) : null}
+                  </tr>
+                ) : null}
                 <tr>
-                  <th scope="col" className="project-grid__header project-grid__header--title">
-                    Task/Tag
-                  </th>
-                  {dayColumns.map((dayNumber) => (
-                    <th key={dayNumber} scope="col" className="project-grid__header">
-                      {dayNumber}
+                  {headerGroups.length ? null : (
+                    <th scope="col" className="project-grid__header project-grid__header--title">
+                      Task/Tag
                     </th>
-                  ))}
+                  )}
+                  {leadingColumnCount ? (
+                    <th colSpan={leadingColumnCount} className="project-grid__spacer" aria-hidden="true" />
+                  ) : null}
+                  {renderedColumns.map((column, renderedIndex) => {
+                    const columnIndex = gridWindow.columnStart + renderedIndex;
+                    const { isWeekend, isToday } = columnHighlights[columnIndex];
+                    const startDate = projectStart ? dayNumberToDate(projectStart, column.startDay) : null;
+                    const endDate = projectStart ? dayNumberToDate(projectStart, column.endDay) : null;
+                    const dayLabel =
+                      column.startDay === column.endDay
+                        ? `Day ${column.startDay}`
+                        : `Days ${column.startDay}–${column.endDay}`;
+                    const dateLabel =
+                      startDate && endDate
+                        ? column.startDay === column.endDay
+                          ? startDate.format('dddd, MMMM D, YYYY')
+                          : `${startDate.format('MMM D')} – ${endDate.format('MMM D, YYYY')}`
+                        : null;
+                    const headerClassName = [
+                      'project-grid__header',
+                      'project-grid__header--column',
+                      isWeekend ? 'project-grid__header--weekend' : '',
+                      isToday ? 'project-grid__header--today' : '',
+                    ]
+                      .filter(Boolean)
+                      .join(' ');
+                    return (
+                      <th
+                        key={column.key}
+                        scope="col"
+                        data-column-index={columnIndex}
+                        className={headerClassName}
+                        title={dateLabel ? `${dayLabel} · ${dateLabel}` : dayLabel}
+                      >
+                        <span className="project-grid__header-label">{column.label}</span>
+                        {startDate && zoom === 'day' ? (
+                          <>
+                            <span className="project-grid__header-date">{startDate.format('D')}</span>
+                            <span className="project-grid__header-weekday">{startDate.format('ddd')}</span>
+                          </>
+                        ) : null}
+                        {startDate && zoom === 'week' ? (
+                          <span className="project-grid__header-date">{startDate.format('D MMM')}</span>
+                        ) : null}
+                      </th>
+                    );
+                  })}
+                  {trailingColumnCount ? (
+                    <th colSpan={trailingColumnCount} className="project-grid__spacer" aria-hidden="true" />
+                  ) : null}
                 </tr>
               </thead>
               {timelineEntries.length ? (
                 <tbody>
-                  {timelineEntries.map((entry) => {
+                  {gridWindow.rowStart ? (
+                    <tr aria-hidden="true">
+                      <td
+                        colSpan={timelineColumns.length + 1}
+                        className="project-grid__spacer"
+                        style={{ height: gridWindow.rowStart * TIMELINE_ROW_HEIGHT }}
+                      />
+                    </tr>
+                  ) : null}
+                  {renderedEntries.map((entry) => {
                     const { item } = entry;
                     const dayRange = taskDayRange.get(item.id);
                     const isTag = entry.entryType === 'tag';
+                    // Shown while the create request runs; the backend doesn't know its id yet
+                    const isPlaceholder = isOptimisticId(item.id);
                     const resolvedNote =
                       entry.entryType === 'task'
-                        ? entry.item.note ?? taskNotes[item.id]?.note ?? null
+                        ? entry.item.note ?? taskNotes.get(item.id) ?? null
                         : null;
                     const noteBody =
                       typeof resolvedNote?.body === 'string' ? resolvedNote.body.trim() : '';
@@ -957,6 +1609,8 @@ export default function ProjectDetailPage() {
                     return (
                       <tr 
                         key={item.id}
+                        className="project-grid__row"
+                        data-entry-id={item.id}
                       >
                         <th scope="row" className={rowHeaderClassName}>
                           <div className="project-grid__row-content">
@@ -971,7 +1625,10 @@ export default function ProjectDetailPage() {
                                     flexShrink: 0,
                                   }}
                                 />
-                                <span className="project-grid__event-name">{item.title}</span>
+                                <span className="project-grid__event-name" title={item.title}>{item.title}</span>
+                                {entry.entryType === 'task' ? (
+                                  <TaskEditorsMarker editors={editorsByTask.get(item.id) ?? []} />
+                                ) : null}
                               </div>
                               {Number.isFinite(item.duration) ? (
                                 <span className="project-grid__event-description">
@@ -981,7 +1638,7 @@ export default function ProjectDetailPage() {
                               ) : null}
                             </div>
                             <div className="project-grid__event-actions">
-                              {entry.entryType === 'task' ? (
+                              {isPlaceholder ? null : entry.entryType === 'task' ? (
                                 <>
                                   <button
                                     type="button"
@@ -991,22 +1648,26 @@ export default function ProjectDetailPage() {
                                   >
                                     <EyeIcon aria-hidden="true" />
                                   </button>
-                                  <button
-                                    type="button"
-                                    className="project-grid__icon-button"
-                                    onClick={() => handleEditTaskRequest(item.id)}
-                                    aria-label={`Edit ${item.title}`}
-                                  >
-                                    <PencilIcon aria-hidden="true" />
-                                  </button>
-                                  <button
-                                    type="button"
-                                    className="project-grid__icon-button project-grid__icon-button--danger"
-                                    onClick={() => handleDeleteTaskRequest(item.id)}
-                                    aria-label={`Delete ${item.title}`}
-                                  >
-                                    <TrashIcon aria-hidden="true" />
-                                  </button>
+                                  {canEdit ? (
+                                    <>
+                                      <button
+                                        type="button"
+                                        className="project-grid__icon-button"
+                                        onClick={() => handleEditTaskRequest(item.id)}
+                                        aria-label={`Edit ${item.title}`}
+                                      >
+                                        <PencilIcon aria-hidden="true" />
+                                      </button>
+                                      <button
+                                        type="button"
+                                        className="project-grid__icon-button project-grid__icon-button--danger"
+                                        onClick={() => handleDeleteTaskRequest(item.id)}
+                                        aria-label={`Delete ${item.title}`}
+                                      >
+                                        <TrashIcon aria-hidden="true" />
+                                      </button>
+                                    </>
+                                  ) : null}
                                 </>
                               ) : (
                                 <>
@@ -1018,59 +1679,103 @@ export default function ProjectDetailPage() {
                                   >
                                     <EyeIcon aria-hidden="true" />
                                   </button>
-                                  <button
-                                    type="button"
-                                    className="project-grid__icon-button"
-                                    onClick={() => handleEditTagRequest(item.id)}
-                                    aria-label={`Edit ${item.title}`}
-                                  >
-                                    <PencilIcon aria-hidden="true" />
-                                  </button>
-                                  <button
-                                    type="button"
-                                    className="project-grid__icon-button project-grid__icon-button--danger"
-                                    onClick={() => handleDeleteTagRequest(item.id)}
-                                    aria-label={`Delete ${item.title}`}
-                                  >
-                                    <TrashIcon aria-hidden="true" />
-                                  </button>
+                                  {canEdit ? (
+                                    <>
+                                      <button
+                                        type="button"
+                                        className="project-grid__icon-button"
+                                        onClick={() => handleEditTagRequest(item.id)}
+                                        aria-label={`Edit ${item.title}`}
+                                      >
+                                        <PencilIcon aria-hidden="true" />
+                                      </button>
+                                      <button
+                                        type="button"
+                                        className="project-grid__icon-button project-grid__icon-button--danger"
+                                        onClick={() => handleDeleteTagRequest(item.id)}
+                                        aria-label={`Delete ${item.title}`}
+                                      >
+                                        <TrashIcon aria-hidden="true" />
+                                      </button>
+                                    </>
+                                  ) : null}
                                 </>
                               )}
                             </div>
                           </div>
                         </th>
-                        {dayColumns.map((dayNumber) => {
+                        {leadingColumnCount ? (
+                          <td colSpan={leadingColumnCount} className="project-grid__spacer" />
+                        ) : null}
+                        {renderedColumns.map((column, renderedIndex) => {
+                          const { isWeekend, isToday } =
+                            columnHighlights[gridWindow.columnStart + renderedIndex];
+                          const isDragged = dragState?.itemId === item.id;
+                          const isShiftPreview = !isDragged && dependencyPreview.has(item.id);
+                          const isCritical = !isTag && (taskSlack.get(item.id) ?? 1) <= 0;
+                          const visibleRange = visibleRanges.get(item.id) ?? dayRange;
                           const isActive =
-                            typeof dayRange !== 'undefined' &&
-                            dayRange.start <= dayNumber &&
-                            dayNumber <= dayRange.end;
-                          const isEndDay = isActive && dayRange.end === dayNumber;
+                            typeof visibleRange !== 'undefined' &&
+                            rangeOverlapsColumn(visibleRange, column);
+                          const isStartDay =
+                            isActive &&
+                            column.startDay <= visibleRange.start &&
+                            visibleRange.start <= column.endDay;
+                          const isEndDay =
+                            isActive &&
+                            column.startDay <= visibleRange.end &&
+                            visibleRange.end <= column.endDay;
                           const shouldShowNote = !isTag && isActive && hasNote;
+                          const canDrag = canEdit && !isPlaceholder && isActive && Boolean(projectStart);
                           
-                          // Check if there's an action for this task and day (only for tasks, not tags)
-                          const hasAction = !isTag && actions.some(action => 
-                            action.taskId === item.id && action.day === dayNumber
-                          );
-                          
-                          // Debug logging for first task and day 1 to verify actions are loaded
-                          if (!isTag && item.id === tasks[0]?.id && dayNumber === 1) {
-                            console.log('Debug - Actions for first task:', actions.filter(a => a.taskId === item.id));
+                          // Check if there's an action for this task within the column (only for tasks, not tags)
+                          let hasAction = false;
+                          for (let day = column.startDay; !isTag && !hasAction && day <= column.endDay; day += 1) {
+                            hasAction = actionIndex.has(actionIndexKey(item.id, day));
                           }
+
+                          // At week/month/quarter zoom a cell spans several days; map the pointer back to one
+                          const resolveDay = (e: React.MouseEvent<HTMLElement>) =>
+                            visibleRange
+                              ? resolveDayInColumn(column, visibleRange, e.clientX, e.currentTarget.getBoundingClientRect())
+                              : column.startDay;
                           
                           const cellClassName = [
                             'project-grid__cell',
+                            isWeekend ? 'project-grid__cell--weekend' : '',
+                            isToday ? 'project-grid__cell--today' : '',
                             isActive ? 'project-grid__cell--active' : '',
+                            isActive && isCritical ? 'project-grid__cell--critical' : '',
                             shouldShowNote ? 'project-grid__cell--with-note' : '',
                             hasAction ? 'project-grid__cell--with-action' : '',
+                            canDrag ? 'project-grid__cell--draggable' : '',
+                            isActive && isDragged ? 'project-grid__cell--dragging' : '',
+                            isActive && isShiftPreview ? 'project-grid__cell--shift-preview' : '',
+                            isActive && isDragged && dragState.committing ? 'project-grid__cell--saving' : '',
                           ]
                             .filter(Boolean)
                             .join(' ');
                           
                           const cellProps = isActive ? {
-                            onMouseEnter: (e: React.MouseEvent) => handleTimelineHover(entry, dayNumber, e),
+                            onMouseEnter: (e: React.MouseEvent<HTMLElement>) => handleTimelineHover(entry, resolveDay(e), e),
                             onMouseLeave: handleTimelineLeave,
-                            onMouseMove: (e: React.MouseEvent) => setTooltipPosition({ x: e.clientX, y: e.clientY }),
-                            onClick: !isTag ? () => handleCellClick(item.id, dayNumber) : undefined,
+                            onMouseMove: (e: React.MouseEvent<HTMLElement>) => {
+                              setTooltipPosition({ x: e.clientX, y: e.clientY });
+                              if (getColumnSpan(column) > 1) {
+                                handleTimelineHover(entry, resolveDay(e), e);
+                              }
+                            },
+                            onMouseDown: canDrag
+                              ? (e: React.MouseEvent<HTMLElement>) => handleBarMouseDown(e, item.id, 'move', column)
+                              : undefined,
+                            onClick: !isTag && !isPlaceholder
+                              ? (e: React.MouseEvent<HTMLElement>) => {
+                                  if (consumeClickSuppression()) {
+                                    return;
+                                  }
+                                  handleCellClick(item.id, resolveDay(e));
+                                }
+                              : undefined,
                             style: { 
                               cursor: 'pointer',
                               backgroundColor: item.color || (isTag ? '#10b981' : '#3b82f6'),
@@ -1078,7 +1783,21 @@ export default function ProjectDetailPage() {
                           } : {};
                           
                           return (
-                            <td key={dayNumber} className={cellClassName} {...cellProps}>
+                            <td key={column.key} className={cellClassName} {...cellProps}>
+                              {canDrag && isStartDay ? (
+                                <span
+                                  className="project-grid__resize-handle project-grid__resize-handle--start"
+                                  onMouseDown={(e) => handleBarMouseDown(e, item.id, 'resize-start', column)}
+                                  aria-hidden="true"
+                                />
+                              ) : null}
+                              {canDrag && isEndDay ? (
+                                <span
+                                  className="project-grid__resize-handle project-grid__resize-handle--end"
+                                  onMouseDown={(e) => handleBarMouseDown(e, item.id, 'resize-end', column)}
+                                  aria-hidden="true"
+                                />
+                              ) : null}
                               {hasAction && (
                                 <ActionIcon 
                                   aria-hidden="true"
@@ -1101,12 +1820,34 @@ export default function ProjectDetailPage() {
                             </td>
                           );
                         })}
+                        {trailingColumnCount ? (
+                          <td colSpan={trailingColumnCount} className="project-grid__spacer" />
+                        ) : null}
                       </tr>
                     );
                   })}
+                  {gridWindow.rowEnd < timelineEntries.length ? (
+                    <tr aria-hidden="true">
+                      <td
+                        colSpan={timelineColumns.length + 1}
+                        className="project-grid__spacer"
+                        style={{ height: (timelineEntries.length - gridWindow.rowEnd) * TIMELINE_ROW_HEIGHT }}
+                      />
+                    </tr>
+                  ) : null}
                 </tbody>
               ) : null}
             </table>
+            <TimelineDependencyArrows
+              tableRef={timelineTableRef}
+              columns={timelineColumns}
+              ranges={visibleRanges}
+              links={dependencyLinks}
+              rowIndex={entryRowIndex}
+              rowHeight={TIMELINE_ROW_HEIGHT}
+              columnWidth={ZOOM_CELL_WIDTHS[zoom]}
+              previewIds={dependencyPreviewIds}
+            />
           </div>
         </div>
         {hoveredItem && (
@@ -1114,7 +1855,7 @@ export default function ProjectDetailPage() {
             entry={hoveredItem}
             position={tooltipPosition}
             taskNotes={taskNotes}
-            actions={actions}
+            actionIndex={actionIndex}
           />
         )}
         {showEmptyState ? (
@@ -1122,14 +1863,33 @@ export default function ProjectDetailPage() {
         ) : null}
       </section>
 
-      <div className="project-detail__actions">
-        <button type="button" onClick={handleAddTag} disabled={!projectId || projectLoading}>
-          Add Tag
-        </button>
-        <button type="button" onClick={handleAddEvent} disabled={!projectId || projectLoading}>
-          Add Task
-        </button>
-      </div>
+      {canEdit ? (
+        <div className="project-detail__actions">
+          <button type="button" onClick={handleAddTag} disabled={!projectId || projectLoading}>
+            Add Tag
+          </button>
+          <button type="button" onClick={handleAddEvent} disabled={!projectId || projectLoading}>
+            Add Task
+          </button>
+        </div>
+      ) : project ? (
+        <p className="project-detail__read-only">{VIEW_ONLY_MESSAGE}</p>
+      ) : null}
+
+      {projectId ? (
+        <section className="project-detail__notes" aria-labelledby="project-notes-title">
+          <header className="project-detail__events-header">
+            <h3 id="project-notes-title">Project notes</h3>
+            <p>Meeting minutes, decisions and links that belong to the whole project.</p>
+          </header>
+          <NotesPanel
+            owner={{ projectId }}
+            onUndoableChange={history.record}
+            emptyMessage={canEdit ? 'No project notes yet. Add the first one above.' : 'No project notes yet.'}
+            readOnly={!canEdit}
+          />
+        </section>
+      ) : null}
       <TagModal
         isOpen={isTagModalOpen}
         projects={project ? [project] : []}
@@ -1142,6 +1902,7 @@ export default function ProjectDetailPage() {
       />
       <TaskModal
         isOpen={isCreateModalOpen}
+        tasks={tasks}
         projects={project ? [project] : []}
         defaultProjectId={projectId}
         submitting={creating}
@@ -1151,12 +1912,16 @@ export default function ProjectDetailPage() {
       <TaskModal
         isOpen={isEditModalOpen}
         mode="edit"
-        task={taskForModal}
+        task={selectedTask}
+        tasks={tasks}
         projects={project ? [project] : []}
         defaultProjectId={selectedTask?.projectId ?? projectId}
         submitting={updating}
         onSubmit={handleUpdateTask}
         onClose={handleCloseModal}
+        otherEditors={
+          selectedTask ? (editorsByTask.get(selectedTask.id) ?? []).map(getViewerName) : []
+        }
       />
       <DeleteTaskModal
         isOpen={isDeleteModalOpen}
@@ -1177,8 +1942,10 @@ export default function ProjectDetailPage() {
       <InspectModal
         isOpen={isInspectModalOpen}
         entry={itemToInspect}
-        taskNotes={taskNotes}
+        slack={itemToInspect ? taskSlack.get(itemToInspect.item.id) : undefined}
+        readOnly={!canEdit}
         onClose={handleCloseInspectModal}
+        onUndoableChange={history.record}
       />
       <TaskListModal
         isOpen={isTaskListModalOpen}
@@ -1202,13 +1969,21 @@ export default function ProjectDetailPage() {
         isOpen={isActionViewModalOpen}
         action={actionToView}
         isEditMode={isActionEditMode}
+        readOnly={!canEdit}
         tasks={tasks}
         onClose={handleCloseActionViewModal}
         onEdit={handleActionEdit}
         onSave={handleActionSave}
         onDelete={handleActionDelete}
       />
+      <ReschedulePreviewModal
+        moves={reschedulePreview}
+        onCancel={() => handleResolveReschedule(false)}
+        onConfirm={() => handleResolveReschedule(true)}
+      />
       
+      {/* Last, so it opens on top of the form whose save ran into the conflict */}
+      <ConflictDialog {...conflictDialogProps} />
       {/* Global Notification System */}
       {notification && (
         <div
@@ -1229,6 +2004,30 @@ export default function ProjectDetailPage() {
           onClick={() => setNotification(null)}
         >
           {notification.message}
+          {notification.action ? (
+            <button
+              type="button"
+              style={{
+                display: 'block',
+                marginTop: '8px',
+                padding: '4px 12px',
+                border: '1px solid rgba(255, 255, 255, 0.8)',
+                borderRadius: '6px',
+                background: 'transparent',
+                color: 'white',
+                fontWeight: '600',
+                cursor: 'pointer',
+              }}
+              onClick={(event) => {
+                // The notification's own click dismisses it
+                event.stopPropagation();
+                setNotification(null);
+                notification.action?.onClick();
+              }}
+            >
+              {notification.action.label}
+            </button>
+          ) : null}
           <div style={{ fontSize: '12px', marginTop: '4px', opacity: 0.9 }}>
             Click to dismiss
           </div>
@@ -1241,18 +2040,18 @@ export default function ProjectDetailPage() {
 interface TimelineTooltipProps {
   entry: HoveredTimelineEntry;
   position: { x: number; y: number };
-  taskNotes: Record<string, TaskNoteCacheEntry>;
-  actions: ActionRes[];
+  taskNotes: Map<string, NoteRes>;
+  actionIndex: Map<string, ActionRes[]>;
 }
 
-function TimelineTooltip({ entry, position, taskNotes, actions }: TimelineTooltipProps) {
+function TimelineTooltip({ entry, position, taskNotes, actionIndex }: TimelineTooltipProps) {
   const { item, hoveredDay } = entry;
   const isTask = entry.entryType === 'task';
   const isTag = entry.entryType === 'tag';
   
   // For tasks: get note and actions for the specific day
-  const resolvedNote = isTask ? entry.item.note ?? taskNotes[item.id]?.note ?? null : null;
-  const dayActions = isTask ? actions.filter(action => action.taskId === item.id && action.day === hoveredDay) : [];
+  const resolvedNote = isTask ? entry.item.note ?? taskNotes.get(item.id) ?? null : null;
+  const dayActions = isTask ? actionIndex.get(actionIndexKey(item.id, hoveredDay)) ?? [] : [];
   
   // Determine what content to show based on the specific day
   const hasNote = resolvedNote?.body;
@@ -1369,7 +2168,7 @@ function TimelineTooltip({ entry, position, taskNotes, actions }: TimelineToolti
 interface TaskListModalProps {
   isOpen: boolean;
   tasks: TaskRes[];
-  taskNotes: Record<string, TaskNoteCacheEntry>;
+  taskNotes: Map<string, NoteRes>;
   onClose: () => void;
 }
 
@@ -1468,7 +2267,7 @@ function TaskListModal({ isOpen, tasks, taskNotes, onClose }: TaskListModalProps
           ) : (
             <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
               {tasks.map((task) => {
-                const resolvedNote = task.note ?? taskNotes[task.id]?.note ?? null;
+                const resolvedNote = task.note ?? taskNotes.get(task.id) ?? null;
                 const startDate = task.startAt ? dayjs(task.startAt).format('MMM D, YYYY') : 'Not set';
                 const endDate = task.endAt ? dayjs(task.endAt).format('MMM D, YYYY') : 'Not set';
                 
@@ -1654,7 +2453,7 @@ function ActionCreateModal({ isOpen, selectedCellInfo, tasks, onClose, onCreate
       onClose();
     } catch (error) {
       console.error('ActionCreateModal: Failed to create action:', error);
-      setError(error instanceof Error ? error.message : 'Failed to create action');
+      setError(getErrorMessage(error, 'Failed to create action'));
     } finally {
       setIsSubmitting(false);
     }
@@ -1740,6 +2539,8 @@ interface ActionViewModalProps {
   isOpen: boolean;
   action: ActionRes | null;
   isEditMode: boolean;
+  /** Viewers can open an action but not change or delete it. */
+  readOnly: boolean;
   tasks: TaskRes[];
   onClose: () => void;
   onEdit: () => void;
@@ -1747,7 +2548,17 @@ interface ActionViewModalProps {
   onDelete: () => Promise<void>;
 }
 
-function ActionViewModal({ isOpen, action, isEditMode, tasks, onClose, onEdit, onSave, onDelete }: ActionViewModalProps) {
+function ActionViewModal({
+  isOpen,
+  action,
+  isEditMode,
+  readOnly,
+  tasks,
+  onClose,
+  onEdit,
+  onSave,
+  onDelete,
+}: ActionViewModalProps) {
   const [editDetails, setEditDetails] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
@@ -1777,7 +2588,7 @@ function ActionViewModal({ isOpen, action, isEditMode, tasks, onClose, onEdit, o
       // Success - parent component should handle exiting edit mode
     } catch (error) {
       console.error('Failed to update action:', error);
-      setSaveError(error instanceof Error ? error.message : 'Failed to save action');
+      setSaveError(getErrorMessage(error, 'Failed to save action'));
     } finally {
       setIsSubmitting(false);
     }
@@ -1896,17 +2707,21 @@ function ActionViewModal({ isOpen, action, isEditMode, tasks, onClose, onEdit, o
               <button type="button" onClick={handleClose}>
                 Close
               </button>
-              <button type="button" onClick={onEdit} disabled={isSubmitting}>
-                Edit
-              </button>
-              <button 
-                type="button" 
-                className="button-danger" 
-                onClick={handleDelete}
-                disabled={isSubmitting}
-              >
-                {isSubmitting ? 'Deleting...' : 'Delete'}
-              </button>
+              {!readOnly ? (
+                <>
+                  <button type="button" onClick={onEdit} disabled={isSubmitting}>
+                    Edit
+                  </button>
+                  <button 
+                    type="button" 
+                    className="button-danger" 
+                    onClick={handleDelete}
+                    disabled={isSubmitting}
+                  >
+                    {isSubmitting ? 'Deleting...' : 'Delete'}
+                  </button>
+                </>
+              ) : null}
             </div>
           </>
         )}
@@ -1918,19 +2733,28 @@ function ActionViewModal({ isOpen, action, isEditMode, tasks, onClose, onEdit, o
 interface InspectModalProps {
   isOpen: boolean;
   entry: TimelineEntry | null;
-  taskNotes: Record<string, TaskNoteCacheEntry>;
+  /** Total slack in days; only known for tasks. */
+  slack?: number;
+  readOnly: boolean;
   onClose: () => void;
+  /** Receives note changes made in the task's notes, for the page's undo history. */
+  onUndoableChange: (change: UndoableChange) => void;
 }
 
-function InspectModal({ isOpen, entry, taskNotes, onClose }: InspectModalProps) {
+function InspectModal({
+  isOpen,
+  entry,
+  slack,
+  readOnly,
+  onClose,
+  onUndoableChange,
+}: InspectModalProps) {
   if (!isOpen || !entry) {
     return null;
   }
 
   const { item } = entry;
   const isTask = entry.entryType === 'task';
-  const resolvedNote = isTask ? entry.item.note ?? taskNotes[item.id]?.note ?? null : null;
-  
   // Calculate duration
   const duration = (() => {
     if (Number.isFinite(item.duration) && item.duration! > 0) {
@@ -2042,17 +2866,103 @@ function InspectModal({ isOpen, entry, taskNotes, onClose }: InspectModalProps)
             <p className="inspect-modal__value">{duration}</p>
           </div>
 
-          {resolvedNote?.body && (
+          {isTask && typeof slack === 'number' && (
             <>
               <div className="inspect-modal__divider" />
+
               <div className="inspect-modal__section">
-                <h4 className="inspect-modal__label">Notes</h4>
-                <p className="inspect-modal__value inspect-modal__notes" style={{ whiteSpace: 'pre-wrap' }}>
-                  {resolvedNote.body}
+                <h4 className="inspect-modal__label">Slack</h4>
+                <p className="inspect-modal__value">
+                  {slack <= 0 ? (
+                    <span className="inspect-modal__critical">
+                      {slack < 0
+                        ? `Critical: already ${-slack} ${slack === -1 ? 'day' : 'days'} behind its successors`
+                        : 'Critical: no slack, any delay moves the project end'}
+                    </span>
+                  ) : (
+                    `${slack} ${slack === 1 ? 'day' : 'days'} before the project end is affected`
+                  )}
                 </p>
               </div>
             </>
           )}
+
+          {isTask && (
+            <>
+              <div className="inspect-modal__divider" />
+              <div className="inspect-modal__section">
+                <h4 className="inspect-modal__label">Notes</h4>
+                <NotesPanel
+                  owner={{ taskId: item.id, projectId: item.projectId }}
+                  readOnly={readOnly}
+                  onUndoableChange={onUndoableChange}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ReschedulePreviewModalProps {
+  moves: RescheduleMove[] | null;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+function ReschedulePreviewModal({ moves, onCancel, onConfirm }: ReschedulePreviewModalProps) {
+  if (!moves) {
+    return null;
+  }
+
+  const formatRange = (range: DayRange) =>
+    range.start === range.end ? `Day ${range.start}` : `Day ${range.start}–${range.end}`;
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={onCancel}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reschedule-modal-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="modal-header">
+          <h3 id="reschedule-modal-title">Move dependent tasks?</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onCancel}
+            aria-label="Close reschedule preview"
+          >
+            ×
+          </button>
+        </div>
+        <div>
+          <p>
+            Saving this change pushes {moves.length === 1 ? 'this task' : `these ${moves.length} tasks`}{' '}
+            forward to keep their dependencies intact:
+          </p>
+          <ul className="reschedule-list">
+            {moves.map((move) => (
+              <li key={move.task.id} className="reschedule-list__item">
+                <strong>{move.task.title}</strong>
+                <span className="reschedule-list__days">
+                  {formatRange(move.from)} → {formatRange(move.to)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="modal-actions">
+          <button type="button" className="button-secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="button" onClick={onConfirm}>
+            Move and save
+          </button>
         </div>
       </div>
     </div>
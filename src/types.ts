@@ -1,3 +1,11 @@
+/**
+ * The signed-in user's role in a project:
+ * - `viewer`: can see everything but change nothing
+ * - `editor`: can change the project and its tasks, tags, actions and notes
+ * - `owner`: can also delete the project
+ */
+export type ProjectRole = 'viewer' | 'editor' | 'owner';
+
 export interface ProjectRes {
   id: string;
   name: string;
@@ -5,6 +13,8 @@ export interface ProjectRes {
   startDate: string;
   createdAt: string;
   updatedAt: string;
+  /** Missing when the backend doesn't track memberships; treated as `owner`. */
+  role?: ProjectRole;
 }
 
 export interface TaskRes {
@@ -20,6 +30,20 @@ export interface TaskRes {
   updatedAt: string;
   note?: NoteRes | null;
   color?: string;
+  dependencies?: TaskDependency[];
+}
+
+/**
+ * Scheduling link to another task in the same project:
+ * - `FS` (finish-to-start): this task starts after the predecessor finishes
+ * - `SS` (start-to-start): this task starts no earlier than the predecessor starts
+ * - `FF` (finish-to-finish): this task finishes no earlier than the predecessor finishes
+ */
+export type TaskDependencyType = 'FS' | 'SS' | 'FF';
+
+export interface TaskDependency {
+  predecessorId: string;
+  type: TaskDependencyType;
 }
 
 export interface TagRes {
@@ -41,6 +65,8 @@ export interface NoteRes {
   taskId?: string;
   body: string;
   createdAt: string;
+  /** Missing from backends that don't version notes; edits then skip the conflict check. */
+  updatedAt?: string;
 }
 
 export interface Page<T> {
@@ -64,6 +90,10 @@ interface ProjectBaseInput {
 
 export interface ProjectCreateInput extends ProjectBaseInput {}
 
+/**
+ * Update inputs carry the `updatedAt` of the version the edit started from. The backend rejects
+ * the update with 409 when the item has changed since, instead of overwriting someone else's edit.
+ */
 export interface ProjectUpdateInput extends Partial<ProjectBaseInput> {
   updatedAt?: string;
 }
@@ -79,9 +109,12 @@ export interface TaskCreateInput {
   start_day: number;
   end_day: number;
   color?: string;
+  dependencies?: TaskDependency[];
 }
 
-export type TaskUpdateInput = TaskCreateInput;
+export interface TaskUpdateInput extends TaskCreateInput {
+  updatedAt?: string;
+}
 
 export interface TagCreateInput {
   projectId: string;
@@ -96,7 +129,9 @@ export interface TagCreateInput {
   color?: string;
 }
 
-export type TagUpdateInput = TagCreateInput;
+export interface TagUpdateInput extends TagCreateInput {
+  updatedAt?: string;
+}
 
 export interface NoteCreateInput {
   projectId?: string;
@@ -106,8 +141,15 @@ export interface NoteCreateInput {
 
 export interface NoteUpdateInput {
   body: string;
+  updatedAt?: string;
 }
 
+/**
+ * What a note thread hangs off: a single task, or the project itself (notes without a task). New
+ * task notes are saved with their project too, so that the project's note list includes them.
+ */
+export type NoteOwner = { taskId: string; projectId: string } | { projectId: string };
+
 export type NoteAction =
   | { type: 'none' }
   | { type: 'create'; body: string }
@@ -128,6 +170,31 @@ export interface ActionRes {
   updatedAt: string;
 }
 
+/** Someone who has a project open, as reported by the project's presence endpoint. */
+export interface ProjectViewer {
+  /** One per open browser tab; the same user in two tabs shows up twice. */
+  sessionId: string;
+  username: string;
+  displayName?: string;
+  /** The task they have open in the task form, if any. */
+  editingTaskId?: string;
+}
+
+/**
+ * A change to an open project, pushed over its live-update stream. Deletions carry only the id,
+ * plus the owning task for notes and actions.
+ */
+export type ProjectEvent =
+  | { type: 'task.created' | 'task.updated'; task: TaskRes }
+  | { type: 'task.deleted'; id: string }
+  | { type: 'tag.created' | 'tag.updated'; tag: TagRes }
+  | { type: 'tag.deleted'; id: string }
+  | { type: 'note.created' | 'note.updated'; note: NoteRes }
+  | { type: 'note.deleted'; id: string; taskId?: string }
+  | { type: 'action.created' | 'action.updated'; action: ActionRes }
+  | { type: 'action.deleted'; id: string; taskId?: string }
+  | { type: 'presence.updated'; viewers: ProjectViewer[] };
+
 export interface ActionCreateInput {
   taskId: string;
   details: string;
@@ -137,4 +204,5 @@ export interface ActionCreateInput {
 export interface ActionUpdateInput {
   details: string;
   day: number;
+  updatedAt?: string;
 }
@@ -1,26 +1,64 @@
 const AUTH_STORAGE_KEY = 'tms-auth-session';
+// Used when the login response doesn't say how long the token lives
 const LOGIN_EXPIRATION_MS = 24 * 60 * 60 * 1000;
 
+export type AuthProvider = 'password' | 'oidc';
+
 type StoredAuth = {
   username: string;
-  timestamp: number;
+  token: string;
+  expiresAt: number;
+  refreshToken?: string;
+  refreshExpiresAt?: number;
+  /** Where the tokens came from, and so where to refresh them and how to log out. */
+  provider?: AuthProvider;
+  /** OIDC ID token, sent back to the identity provider as a hint on logout. */
+  idToken?: string;
 };
 
+/** What the UI needs to know about the current session; times are epoch milliseconds. */
+export interface SessionInfo {
+  username: string;
+  /** When the access token expires; it is refreshed in the background before then. */
+  accessExpiresAt: number;
+  /** When the user has to sign in again: the refresh token's expiry, or the access token's without one. */
+  endsAt: number;
+  canRefresh: boolean;
+}
+
+type SessionListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionListener>();
+const sessionChangeListeners = new Set<SessionListener>();
+
 function getStoredAuth(): StoredAuth | null {
   if (typeof window === 'undefined') {
     return null;
   }
 
   const rawValue = window.localStorage.getItem(AUTH_STORAGE_KEY);
+  const auth = parseStoredAuth(rawValue);
 
+  if (rawValue && !auth) {
+    window.localStorage.removeItem(AUTH_STORAGE_KEY);
+  }
+
+  return auth;
+}
+
+function parseStoredAuth(rawValue: string | null): StoredAuth | null {
   if (!rawValue) {
     return null;
   }
 
   try {
-    return JSON.parse(rawValue) as StoredAuth;
-  } catch (error) {
-    window.localStorage.removeItem(AUTH_STORAGE_KEY);
+    const auth = JSON.parse(rawValue) as Partial<StoredAuth>;
+    // Sessions saved by the old browser-only login have no token; treat them as logged out
+    if (typeof auth.token !== 'string' || typeof auth.expiresAt !== 'number') {
+      return null;
+    }
+    return auth as StoredAuth;
+  } catch {
     return null;
   }
 }
@@ -39,32 +77,161 @@ export function clearAuth() {
   }
 
   window.localStorage.removeItem(AUTH_STORAGE_KEY);
+  sessionChangeListeners.forEach((listener) => listener());
 }
 
-export function isAuthenticated(): boolean {
+export function saveSession({
+  username,
+  token,
+  expiresInSeconds,
+  refreshToken,
+  refreshExpiresInSeconds,
+  provider,
+  idToken,
+}: {
+  username: string;
+  token: string;
+  expiresInSeconds?: number;
+  refreshToken?: string;
+  refreshExpiresInSeconds?: number;
+  provider?: AuthProvider;
+  idToken?: string;
+}) {
+  const now = Date.now();
+  const lifetimeMs = expiresInSeconds ? expiresInSeconds * 1000 : LOGIN_EXPIRATION_MS;
+  // A login passes `provider` and starts a fresh session. A refresh leaves it out, and its
+  // response can omit what didn't change (a non-rotated refresh token, the ID token); keep those.
+  const previous = provider ? null : getStoredAuth();
+
+  persistAuth({
+    username,
+    token,
+    expiresAt: now + lifetimeMs,
+    refreshToken: refreshToken ?? previous?.refreshToken,
+    refreshExpiresAt: refreshToken
+      ? refreshExpiresInSeconds
+        ? now + refreshExpiresInSeconds * 1000
+        : undefined
+      : previous?.refreshExpiresAt,
+    provider: provider ?? previous?.provider ?? 'password',
+    idToken: idToken ?? previous?.idToken,
+  });
+  sessionChangeListeners.forEach((listener) => listener());
+}
+
+function canRefresh(auth: StoredAuth, now = Date.now()) {
+  return Boolean(auth.refreshToken) && (auth.refreshExpiresAt === undefined || now < auth.refreshExpiresAt);
+}
+
+// A session stays usable after its access token expires as long as it can still be refreshed
+function getActiveAuth(): StoredAuth | null {
   const auth = getStoredAuth();
 
   if (!auth) {
-    return false;
+    return null;
   }
 
-  const isExpired = Date.now() - auth.timestamp > LOGIN_EXPIRATION_MS;
-
-  if (isExpired) {
-    clearAuth();
-    return false;
+  const now = Date.now();
+  if (now >= auth.expiresAt && !canRefresh(auth, now)) {
+    // Not `clearAuth()`: this runs during render, where notifying listeners would update other components
+    window.localStorage.removeItem(AUTH_STORAGE_KEY);
+    return null;
   }
 
-  return true;
+  return auth;
 }
 
-export function login(username: string, password: string): boolean {
-  const isValid = username === 'admin' && password === 'password';
+export function isAuthenticated(): boolean {
+  return getActiveAuth() !== null;
+}
+
+/** The access token, or `null` when there is none or it has expired and needs a refresh. */
+export function getAuthToken(): string | null {
+  const auth = getActiveAuth();
+  return auth && Date.now() < auth.expiresAt ? auth.token : null;
+}
+
+export function getRefreshToken(): string | null {
+  const auth = getActiveAuth();
+  return auth && canRefresh(auth) ? auth.refreshToken ?? null : null;
+}
+
+export function getSessionInfo(): SessionInfo | null {
+  const auth = getActiveAuth();
 
-  if (!isValid) {
-    return false;
+  if (!auth) {
+    return null;
   }
 
-  persistAuth({ username, timestamp: Date.now() });
-  return true;
+  const refreshable = canRefresh(auth);
+  return {
+    username: auth.username,
+    accessExpiresAt: auth.expiresAt,
+    // Without a known refresh expiry the session can be extended indefinitely
+    endsAt: refreshable ? auth.refreshExpiresAt ?? Number.POSITIVE_INFINITY : auth.expiresAt,
+    canRefresh: refreshable,
+  };
+}
+
+export function getAuthUsername(): string | null {
+  return getActiveAuth()?.username ?? null;
+}
+
+export function getAuthProvider(): AuthProvider | null {
+  const auth = getActiveAuth();
+  return auth ? auth.provider ?? 'password' : null;
+}
+
+export function getIdToken(): string | null {
+  return getActiveAuth()?.idToken ?? null;
+}
+
+/** Registers a callback for when the session is saved, refreshed or cleared; returns an unsubscribe function. */
+export function onSessionChange(listener: SessionListener) {
+  sessionChangeListeners.add(listener);
+  return () => {
+    sessionChangeListeners.delete(listener);
+  };
+}
+
+/** Registers a callback for when the API rejects the session; returns an unsubscribe function. */
+export function onSessionExpired(listener: SessionListener) {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+// Called when the session can't be kept alive (a 401 that a refresh didn't fix, or the session
+// running out): drops the stored tokens and lets the app send the user to login
+export function expireSession() {
+  clearAuth();
+  sessionExpiredListeners.forEach((listener) => listener());
+}
+
+/**
+ * Follows session changes made in other tabs through `storage` events. A logout elsewhere (or
+ * a different user signing in) ends the session here too; refreshed tokens are simply picked up,
+ * since every request reads the token from storage. Returns a function that stops listening.
+ */
+export function syncSessionAcrossTabs() {
+  const handleStorage = (event: StorageEvent) => {
+    // `key` is null when another tab cleared all of localStorage
+    if (event.storageArea !== window.localStorage || (event.key !== null && event.key !== AUTH_STORAGE_KEY)) {
+      return;
+    }
+
+    const previous = parseStoredAuth(event.oldValue);
+    const next = getStoredAuth();
+    sessionChangeListeners.forEach((listener) => listener());
+
+    const signedOut = !next && (previous !== null || event.key === null);
+    const switchedUser = previous !== null && next !== null && next.username !== previous.username;
+    if (signedOut || switchedUser) {
+      sessionExpiredListeners.forEach((listener) => listener());
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
 }
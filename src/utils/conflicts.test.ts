@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError } from '../api/errors';
+import { saveWithConflictCheck, type ConflictFieldSpec } from './conflicts';
+
+interface Tag {
+  name: string;
+  color: string;
+  description?: string;
+}
+
+const specs: ConflictFieldSpec<Tag>[] = [
+  { label: 'Name', keys: ['name'], format: (tag) => tag.name },
+  { label: 'Color', keys: ['color'], format: (tag) => tag.color },
+  { label: 'Description', keys: ['description'], format: (tag) => tag.description ?? '' },
+];
+
+describe('saveWithConflictCheck', () => {
+  it('saves the merge on top of the version that won the race', async () => {
+    const saved: Array<{ tag: Tag; updatedAt?: string }> = [];
+    const outcome = await saveWithConflictCheck<Tag>({
+      base: { name: 'Bug', color: 'red', description: '' },
+      baseUpdatedAt: 't1',
+      mine: { name: 'Defect', color: 'red', description: '' },
+      specs,
+      save: async (tag, updatedAt) => {
+        saved.push({ tag, updatedAt });
+        if (updatedAt === 't1') {
+          throw new ApiError({ status: 409, message: 'Conflict' });
+        }
+      },
+      fetchLatest: async () => ({
+        version: { name: 'Bugs', color: 'blue', description: undefined },
+        updatedAt: 't2',
+      }),
+      resolve: async (fields) => {
+        // The unset description doesn't count as a difference; the color only changed on their side
+        expect(fields.map(({ label, suggested }) => [label, suggested])).toEqual([
+          ['Name', 'mine'],
+          ['Color', 'theirs'],
+        ]);
+        return { Name: 'mine', Color: 'theirs' };
+      },
+    });
+
+    expect(outcome).toBe('saved');
+    expect(saved[1]).toEqual({
+      tag: { name: 'Defect', color: 'blue', description: '' },
+      updatedAt: 't2',
+    });
+  });
+
+  it('rejects when the user cancels', async () => {
+    await expect(
+      saveWithConflictCheck<Tag>({
+        base: { name: 'Bug', color: 'red' },
+        baseUpdatedAt: 't1',
+        mine: { name: 'Defect', color: 'red' },
+        specs,
+        save: () => Promise.reject(new ApiError({ status: 409, message: 'Conflict' })),
+        fetchLatest: async () => ({ version: { name: 'Bugs', color: 'red' }, updatedAt: 't2' }),
+        resolve: async () => null,
+      }),
+    ).rejects.toThrow('Save cancelled');
+  });
+});
@@ -0,0 +1,137 @@
+import { isConflictError } from '../api/errors';
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+/** One editable part of an item, compared and merged as a whole (e.g. start, end and duration). */
+export interface ConflictFieldSpec<T> {
+  label: string;
+  keys: readonly (keyof T)[];
+  format: (version: T) => string;
+}
+
+/** A part of the item that the user's edit and the server's version disagree on. */
+export interface ConflictField {
+  label: string;
+  base: string;
+  mine: string;
+  theirs: string;
+  /** What merging keeps unless the user says otherwise: whichever side actually changed it. */
+  suggested: ConflictChoice;
+}
+
+/** The user's answer: a choice per conflicting field (by label), or `null` to stop saving. */
+export type ConflictResolution = Record<string, ConflictChoice> | null;
+
+// Empty text, empty lists and `false` count as unset, so a form's "" doesn't conflict with a
+// field the server left out
+function normalize(value: unknown) {
+  if (value === '' || value === false || (Array.isArray(value) && !value.length)) {
+    return null;
+  }
+  return value ?? null;
+}
+
+function pick<T>(version: T, keys: readonly (keyof T)[]) {
+  return JSON.stringify(keys.map((key) => normalize(version[key])));
+}
+
+/** Whether two versions agree on `keys`, counting unset and empty values as the same. */
+export function isSameVersion<T>(versionA: T, versionB: T, keys: readonly (keyof T)[]) {
+  return pick(versionA, keys) === pick(versionB, keys);
+}
+
+export function describeConflict<T>(
+  specs: readonly ConflictFieldSpec<T>[],
+  base: T,
+  mine: T,
+  theirs: T,
+): ConflictField[] {
+  return specs
+    .filter(({ keys }) => pick(mine, keys) !== pick(theirs, keys))
+    .map(({ label, keys, format }) => ({
+      label,
+      base: format(base),
+      mine: format(mine),
+      theirs: format(theirs),
+      suggested: pick(mine, keys) !== pick(base, keys) ? 'mine' : 'theirs',
+    }));
+}
+
+export function mergeVersions<T>(
+  specs: readonly ConflictFieldSpec<T>[],
+  mine: T,
+  theirs: T,
+  resolution: Record<string, ConflictChoice>,
+): T {
+  const merged = { ...mine };
+  specs.forEach(({ label, keys }) => {
+    if (resolution[label] === 'theirs') {
+      keys.forEach((key) => {
+        merged[key] = theirs[key];
+      });
+    }
+  });
+  return merged;
+}
+
+interface SaveWithConflictCheckOptions<T> {
+  /** The version the user started editing, with the `updatedAt` it had. */
+  base: T;
+  baseUpdatedAt: string | undefined;
+  mine: T;
+  specs: readonly ConflictFieldSpec<T>[];
+  save: (version: T, updatedAt: string | undefined) => Promise<unknown>;
+  /** Loads what the server has now, after it answered 409. */
+  fetchLatest: () => Promise<{ version: T; updatedAt: string | undefined }>;
+  resolve: (fields: ConflictField[]) => Promise<ConflictResolution>;
+}
+
+/**
+ * Saves an edit based on `baseUpdatedAt`. If someone else saved the item in the meantime (409),
+ * shows the user both versions and saves again on top of theirs with what the user picked.
+ * Resolves `'saved'`, or `'theirs'` when the server's version was kept and nothing was sent;
+ * rejects when the user cancels, so a form can stay open with the user's input.
+ */
+export async function saveWithConflictCheck<T>({
+  base,
+  baseUpdatedAt,
+  mine,
+  specs,
+  save,
+  fetchLatest,
+  resolve,
+}: SaveWithConflictCheckOptions<T>): Promise<'saved' | 'theirs'> {
+  let ancestor = base;
+  let version = mine;
+  let updatedAt = baseUpdatedAt;
+
+  for (;;) {
+    try {
+      await save(version, updatedAt);
+      return 'saved';
+    } catch (error) {
+      if (!isConflictError(error)) {
+        throw error;
+      }
+    }
+
+    const latest = await fetchLatest();
+    const fields = describeConflict(specs, ancestor, version, latest.version);
+    // They made the same change; there is nothing left to save
+    if (!fields.length) {
+      return 'theirs';
+    }
+
+    const resolution = await resolve(fields);
+    if (!resolution) {
+      throw new Error('Save cancelled. Your changes were not saved.');
+    }
+    if (Object.values(resolution).every((choice) => choice === 'theirs')) {
+      return 'theirs';
+    }
+
+    version = mergeVersions(specs, version, latest.version, resolution);
+    ancestor = latest.version;
+    updatedAt = latest.updatedAt;
+  }
+}
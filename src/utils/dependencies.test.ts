@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { TaskDependency, TaskRes } from '../types';
+import { computeDependencyShifts, computeTaskSlack, earliestAllowedRange } from './dependencies';
+import type { DayRange } from './timeline';
+
+function makeTask(id: string, dependencies: TaskDependency[] = []): TaskRes {
+  return {
+    id,
+    projectId: 'project-1',
+    title: id,
+    duration: 1,
+    startAt: '2024-01-01T00:00:00.000Z',
+    endAt: '2024-01-01T00:00:00.000Z',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    dependencies,
+  };
+}
+
+describe('dependencies', () => {
+  const tasks = [
+    makeTask('design'),
+    makeTask('build', [{ predecessorId: 'design', type: 'FS' }]),
+    makeTask('docs', [{ predecessorId: 'design', type: 'FS' }]),
+  ];
+  const ranges = new Map<string, DayRange>([
+    ['design', { start: 1, end: 3 }],
+    ['build', { start: 4, end: 10 }],
+    ['docs', { start: 5, end: 6 }],
+  ]);
+
+  it('pushes successors forward when a predecessor grows', () => {
+    const shifts = computeDependencyShifts(tasks, ranges, new Map([['design', { start: 1, end: 5 }]]));
+
+    expect(shifts.get('build')).toEqual({ start: 6, end: 12 });
+    expect(shifts.get('docs')).toEqual({ start: 6, end: 7 });
+  });
+
+  it('enforces a predecessor added in an edit, once the edited links are in the graph', () => {
+    // `docs` gets `build` as a new predecessor while being moved to days 8–9
+    const newLink: TaskDependency = { predecessorId: 'build', type: 'FS' };
+    const edited = tasks.map((task) =>
+      task.id === 'docs' ? { ...task, dependencies: [...(task.dependencies ?? []), newLink] } : task,
+    );
+    const range = { start: 8, end: 9 };
+
+    expect(earliestAllowedRange(tasks, ranges, 'docs', range)).toEqual(range);
+    expect(earliestAllowedRange(edited, ranges, 'docs', range)).toEqual({ start: 11, end: 12 });
+    // Growing `build` now pushes `docs` along as well
+    const shifts = computeDependencyShifts(edited, ranges, new Map([['build', { start: 4, end: 12 }]]));
+    expect(shifts.get('docs')).toEqual({ start: 13, end: 14 });
+  });
+
+  it('reports zero slack along the critical path', () => {
+    const slack = computeTaskSlack(tasks, ranges);
+
+    expect(slack.get('design')).toBe(0);
+    expect(slack.get('build')).toBe(0);
+    expect(slack.get('docs')).toBe(4);
+  });
+});
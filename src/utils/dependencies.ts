@@ -0,0 +1,245 @@
+import type { TaskDependency, TaskDependencyType, TaskRes } from '../types';
+import type { DayRange } from './timeline';
+
+export const DEPENDENCY_TYPE_LABELS: Record<TaskDependencyType, string> = {
+  FS: 'Finish → Start',
+  SS: 'Start → Start',
+  FF: 'Finish → Finish',
+};
+
+export interface DependencyLink {
+  key: string;
+  predecessorId: string;
+  successorId: string;
+  type: TaskDependencyType;
+}
+
+export interface RescheduleMove {
+  task: TaskRes;
+  from: DayRange;
+  to: DayRange;
+}
+
+export function collectDependencyLinks(tasks: TaskRes[]): DependencyLink[] {
+  const taskIds = new Set(tasks.map((task) => task.id));
+  const links: DependencyLink[] = [];
+
+  tasks.forEach((task) => {
+    (task.dependencies ?? []).forEach((dependency) => {
+      if (!taskIds.has(dependency.predecessorId) || dependency.predecessorId === task.id) {
+        return;
+      }
+      links.push({
+        key: `${dependency.predecessorId}-${dependency.type}-${task.id}`,
+        predecessorId: dependency.predecessorId,
+        successorId: task.id,
+        type: dependency.type,
+      });
+    });
+  });
+
+  return links;
+}
+
+/**
+ * Number of days the successor has to move forward so the dependency holds.
+ * Day ranges are inclusive, so finish-to-start needs the successor to begin the day after.
+ */
+export function requiredShift(type: TaskDependencyType, predecessor: DayRange, successor: DayRange) {
+  switch (type) {
+    case 'FS':
+      return Math.max(0, predecessor.end + 1 - successor.start);
+    case 'SS':
+      return Math.max(0, predecessor.start - successor.start);
+    case 'FF':
+      return Math.max(0, predecessor.end - successor.end);
+    default: {
+      const exhaustiveCheck: never = type;
+      return exhaustiveCheck;
+    }
+  }
+}
+
+/**
+ * Propagates schedule changes through the dependency graph and returns the new ranges of every
+ * successor that has to move forward. Successors are never pulled earlier.
+ */
+export function computeDependencyShifts(
+  tasks: TaskRes[],
+  ranges: Map<string, DayRange>,
+  changes: Map<string, DayRange>,
+): Map<string, DayRange> {
+  const links = collectDependencyLinks(tasks);
+  const successorsOf = new Map<string, DependencyLink[]>();
+  links.forEach((link) => {
+    const existing = successorsOf.get(link.predecessorId) ?? [];
+    existing.push(link);
+    successorsOf.set(link.predecessorId, existing);
+  });
+
+  const current = new Map(ranges);
+  changes.forEach((range, taskId) => current.set(taskId, range));
+
+  const shifted = new Map<string, DayRange>();
+  const queue = [...changes.keys()];
+  // A cycle in bad data would otherwise keep pushing tasks forward forever
+  let budget = (links.length + 1) * (tasks.length + 1);
+
+  while (queue.length && budget > 0) {
+    budget -= 1;
+    const predecessorId = queue.shift()!;
+    const predecessorRange = current.get(predecessorId);
+    if (!predecessorRange) {
+      continue;
+    }
+
+    (successorsOf.get(predecessorId) ?? []).forEach((link) => {
+      const successorRange = current.get(link.successorId);
+      if (!successorRange || changes.has(link.successorId)) {
+        return;
+      }
+
+      const shift = requiredShift(link.type, predecessorRange, successorRange);
+      if (shift === 0) {
+        return;
+      }
+
+      const next = { start: successorRange.start + shift, end: successorRange.end + shift };
+      current.set(link.successorId, next);
+      shifted.set(link.successorId, next);
+      queue.push(link.successorId);
+    });
+  }
+
+  return shifted;
+}
+
+/**
+ * The earliest placement of `range` (same length) that satisfies every dependency of `taskId` on
+ * its predecessors; `range` itself when it already does.
+ */
+export function earliestAllowedRange(
+  tasks: TaskRes[],
+  ranges: Map<string, DayRange>,
+  taskId: string,
+  range: DayRange,
+): DayRange {
+  const shift = collectDependencyLinks(tasks)
+    .filter((link) => link.successorId === taskId)
+    .reduce((largest, link) => {
+      const predecessorRange = ranges.get(link.predecessorId);
+      return predecessorRange
+        ? Math.max(largest, requiredShift(link.type, predecessorRange, range))
+        : largest;
+    }, 0);
+  return shift ? { start: range.start + shift, end: range.end + shift } : range;
+}
+
+/**
+ * True when making `predecessorId` a predecessor of `taskId` would close a loop,
+ * i.e. `taskId` already (directly or transitively) comes before `predecessorId`.
+ */
+export function wouldCreateCycle(tasks: TaskRes[], taskId: string, predecessorId: string) {
+  if (taskId === predecessorId) {
+    return true;
+  }
+
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const visited = new Set<string>();
+  const stack = [predecessorId];
+
+  while (stack.length) {
+    const currentId = stack.pop()!;
+    if (currentId === taskId) {
+      return true;
+    }
+    if (visited.has(currentId)) {
+      continue;
+    }
+    visited.add(currentId);
+    (tasksById.get(currentId)?.dependencies ?? []).forEach((dependency: TaskDependency) => {
+      stack.push(dependency.predecessorId);
+    });
+  }
+
+  return false;
+}
+
+/**
+ * Total slack of every task: how many days it can slip before it delays the project end
+ * (the latest task end) or pushes a successor past its own latest position. Tasks with no
+ * slack form the critical path.
+ */
+export function computeTaskSlack(tasks: TaskRes[], ranges: Map<string, DayRange>): Map<string, number> {
+  const projectEnd = tasks.reduce(
+    (latest, task) => Math.max(latest, ranges.get(task.id)?.end ?? 0),
+    0,
+  );
+
+  const successorsOf = new Map<string, DependencyLink[]>();
+  collectDependencyLinks(tasks).forEach((link) => {
+    const existing = successorsOf.get(link.predecessorId) ?? [];
+    existing.push(link);
+    successorsOf.set(link.predecessorId, existing);
+  });
+
+  const latestEnds = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const resolveLatestEnd = (taskId: string, range: DayRange): number => {
+    const cached = latestEnds.get(taskId);
+    if (cached !== undefined) {
+      return cached;
+    }
+    // A dependency cycle in bad data: fall back to the project end instead of recursing forever
+    if (visiting.has(taskId)) {
+      return projectEnd;
+    }
+    visiting.add(taskId);
+
+    const duration = range.end - range.start + 1;
+    let latestEnd = projectEnd;
+    (successorsOf.get(taskId) ?? []).forEach((link) => {
+      const successorRange = ranges.get(link.successorId);
+      if (!successorRange) {
+        return;
+      }
+      const successorLatestEnd = resolveLatestEnd(link.successorId, successorRange);
+      const successorLatestStart = successorLatestEnd - (successorRange.end - successorRange.start);
+      latestEnd = Math.min(latestEnd, latestEndForLink(link.type, duration, successorLatestStart, successorLatestEnd));
+    });
+
+    visiting.delete(taskId);
+    latestEnds.set(taskId, latestEnd);
+    return latestEnd;
+  };
+
+  const slack = new Map<string, number>();
+  tasks.forEach((task) => {
+    const range = ranges.get(task.id);
+    if (range) {
+      slack.set(task.id, resolveLatestEnd(task.id, range) - range.end);
+    }
+  });
+  return slack;
+}
+
+function latestEndForLink(
+  type: TaskDependencyType,
+  duration: number,
+  successorLatestStart: number,
+  successorLatestEnd: number,
+) {
+  switch (type) {
+    case 'FS':
+      return successorLatestStart - 1;
+    case 'SS':
+      return successorLatestStart + duration - 1;
+    case 'FF':
+      return successorLatestEnd;
+    default: {
+      const exhaustiveCheck: never = type;
+      return exhaustiveCheck;
+    }
+  }
+}
@@ -0,0 +1,140 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  level: LogLevel;
+  namespace: string;
+  message: string;
+  data: unknown[];
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const DEBUG_STORAGE_KEY = 'tms-debug';
+const DEBUG_QUERY_PARAM = 'debug';
+const REDACTED = '[redacted]';
+const SENSITIVE_KEY_PATTERN = /pass(word)?|token|secret|authorization|cookie|api[-_]?key|credential/i;
+
+const consoleSink: LogSink = ({ level, namespace, message, data }) => {
+  console[level](`[${namespace}] ${message}`, ...data);
+};
+
+let sink: LogSink = consoleSink;
+let tracedNamespaces = readDebugSetting();
+
+/**
+ * Reads which namespaces to trace. `?debug=api` (comma separated, `*` for all) is remembered
+ * in localStorage so it survives navigation; `?debug=off` clears it.
+ */
+function readDebugSetting(): Set<string> {
+  if (typeof window === 'undefined') {
+    return new Set();
+  }
+
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get(DEBUG_QUERY_PARAM);
+    if (fromUrl === 'off') {
+      window.localStorage.removeItem(DEBUG_STORAGE_KEY);
+    } else if (fromUrl) {
+      window.localStorage.setItem(DEBUG_STORAGE_KEY, fromUrl);
+    }
+    return parseNamespaces(window.localStorage.getItem(DEBUG_STORAGE_KEY) ?? '');
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed iframes); tracing just stays off
+    return new Set();
+  }
+}
+
+function parseNamespaces(value: string) {
+  return new Set(
+    value
+      .split(',')
+      .map((namespace) => namespace.trim())
+      .filter(Boolean),
+  );
+}
+
+function isTraced(namespace: string) {
+  return tracedNamespaces.has('*') || tracedNamespaces.has(namespace);
+}
+
+// Traced namespaces log everything. Otherwise dev builds show warnings and errors, and
+// production builds stay silent.
+function shouldLog(level: LogLevel, namespace: string) {
+  if (isTraced(namespace)) {
+    return true;
+  }
+  return import.meta.env.DEV && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf('warn');
+}
+
+/**
+ * Replaces the values of sensitive-looking keys with a placeholder. JSON strings (such as
+ * request bodies) are parsed and redacted too.
+ */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        return redact(JSON.parse(trimmed), seen);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  }
+
+  if (typeof value !== 'object' || value === null || value instanceof Error) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY_PATTERN.test(key) ? REDACTED : redact(item, seen),
+    ]),
+  );
+}
+
+export function createLogger(namespace: string) {
+  const log =
+    (level: LogLevel) =>
+    (message: string, ...data: unknown[]) => {
+      if (!shouldLog(level, namespace)) {
+        return;
+      }
+      sink({ level, namespace, message, data: data.map((item) => redact(item)) });
+    };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+  };
+}
+
+export type Logger = ReturnType<typeof createLogger>;
+
+/** Routes log entries somewhere other than the console, e.g. an error reporter. */
+export function setLogSink(nextSink: LogSink | null) {
+  sink = nextSink ?? consoleSink;
+}
+
+/** Turns tracing on or off at runtime without a reload; `null` switches it off. */
+export function setDebugNamespaces(value: string | null) {
+  if (value) {
+    window.localStorage.setItem(DEBUG_STORAGE_KEY, value);
+  } else {
+    window.localStorage.removeItem(DEBUG_STORAGE_KEY);
+  }
+  tracedNamespaces = parseNamespaces(value ?? '');
+}
@@ -0,0 +1,8 @@
+import type { NoteOwner } from '../types';
+
+export const NOTE_MAX_LENGTH = 20000;
+
+// Id of the "new note" field of a notes panel, so surrounding forms can point a label at it
+export function getNotesPanelInputId(owner: NoteOwner) {
+  return 'taskId' in owner ? `notes-panel-task-${owner.taskId}` : `notes-panel-project-${owner.projectId}`;
+}
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { queryClient } from '../queryClient';
+import type { Page } from '../types';
+import {
+  createOptimisticId,
+  findCachedItem,
+  isOptimisticId,
+  patchCachedLists,
+  replaceOptimisticItem,
+  restoreCacheSnapshot,
+} from './optimisticCache';
+
+interface Item {
+  id: string;
+}
+
+function makePage(ids: string[]): Page<Item> {
+  return {
+    content: ids.map((id) => ({ id })),
+    totalElements: ids.length,
+    totalPages: 1,
+    size: 20,
+    number: 0,
+    numberOfElements: ids.length,
+  };
+}
+
+describe('optimisticCache', () => {
+  afterEach(() => queryClient.clear());
+
+  it('patches pages and plain arrays and restores them from the snapshot', async () => {
+    queryClient.setQueryData(['items', { scope: 'page' }], makePage(['a', 'b']));
+    queryClient.setQueryData(['items', { scope: 'array' }], [{ id: 'a' }]);
+
+    const snapshot = await patchCachedLists<Item>({ queryKey: ['items'] }, (items) =>
+      items.filter((item) => item.id !== 'a'),
+    );
+
+    const page = queryClient.getQueryData<Page<Item>>(['items', { scope: 'page' }]);
+    expect(page?.content).toEqual([{ id: 'b' }]);
+    expect(page?.totalElements).toBe(1);
+    expect(queryClient.getQueryData(['items', { scope: 'array' }])).toEqual([]);
+    expect(findCachedItem<Item>(['items'], 'a')).toBeUndefined();
+
+    restoreCacheSnapshot(snapshot);
+
+    expect(queryClient.getQueryData(['items', { scope: 'page' }])).toEqual(makePage(['a', 'b']));
+    expect(findCachedItem<Item>(['items'], 'a')).toEqual({ id: 'a' });
+  });
+
+  it('swaps a placeholder for the created item without duplicating one that arrived already', () => {
+    const placeholderId = createOptimisticId();
+    expect(isOptimisticId(placeholderId)).toBe(true);
+    expect(isOptimisticId('task-1')).toBe(false);
+
+    queryClient.setQueryData(['items', { scope: 'page' }], makePage(['a', placeholderId]));
+    queryClient.setQueryData(['items', { scope: 'array' }], [{ id: placeholderId }, { id: 'c' }]);
+
+    replaceOptimisticItem<Item>({ queryKey: ['items'] }, placeholderId, { id: 'c' });
+
+    expect(queryClient.getQueryData(['items', { scope: 'page' }])).toEqual(makePage(['a', 'c']));
+    expect(queryClient.getQueryData(['items', { scope: 'array' }])).toEqual([{ id: 'c' }]);
+  });
+});
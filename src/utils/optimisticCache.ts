@@ -0,0 +1,104 @@
+import type { QueryFilters, QueryKey } from '@tanstack/react-query';
+import { queryClient } from '../queryClient';
+import type { Page } from '../types';
+
+/** Cached lists as they were before an optimistic change, so a failed mutation can restore them. */
+export type CacheSnapshot = Array<[QueryKey, unknown]>;
+
+/**
+ * Called after a failed mutation's optimistic change was reverted. `undone` tells the user what
+ * jumped back, e.g. `Task "Survey" was put back.`
+ */
+export type RollbackListener = (undone: string, error: unknown) => void;
+
+const OPTIMISTIC_ID_PREFIX = 'optimistic-';
+
+let nextOptimisticId = 0;
+
+// Placeholder id for an item the backend hasn't created yet; swapped for the real one on success
+export function createOptimisticId() {
+  nextOptimisticId += 1;
+  return `${OPTIMISTIC_ID_PREFIX}${nextOptimisticId}`;
+}
+
+// The backend doesn't know these ids yet, so nothing may be requested or changed under them
+export function isOptimisticId(id: string) {
+  return id.startsWith(OPTIMISTIC_ID_PREFIX);
+}
+
+function patchList<T>(data: unknown, update: (items: T[]) => T[]): unknown {
+  if (Array.isArray(data)) {
+    return update(data as T[]);
+  }
+  if (data && typeof data === 'object' && 'content' in data) {
+    const page = data as Page<T>;
+    const content = update(page.content);
+    const added = content.length - page.content.length;
+    return {
+      ...page,
+      content,
+      totalElements: page.totalElements + added,
+      numberOfElements: page.numberOfElements + added,
+    };
+  }
+  return data;
+}
+
+/**
+ * Applies `update` to every cached list matching `filters` (plain arrays and pages alike) and
+ * returns what they held before. In-flight fetches are cancelled first so a late response can't
+ * overwrite the optimistic state.
+ */
+export async function patchCachedLists<T>(
+  filters: QueryFilters,
+  update: (items: T[]) => T[],
+): Promise<CacheSnapshot> {
+  await queryClient.cancelQueries(filters);
+  return updateCachedLists(filters, update);
+}
+
+// Same as `patchCachedLists` without cancelling fetches, for changes the server has already made
+export function updateCachedLists<T>(filters: QueryFilters, update: (items: T[]) => T[]): CacheSnapshot {
+  const snapshot = queryClient.getQueriesData(filters);
+  snapshot.forEach(([key, data]) => {
+    if (data !== undefined) {
+      queryClient.setQueryData(key, patchList(data, update));
+    }
+  });
+  return snapshot;
+}
+
+export function restoreCacheSnapshot(snapshot: CacheSnapshot | undefined) {
+  snapshot?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+}
+
+// First cached item with the given id under `queryKey`, used to name it in rollback messages
+export function findCachedItem<T extends { id: string }>(
+  queryKey: QueryKey,
+  id: string,
+): T | undefined {
+  for (const [, data] of queryClient.getQueriesData({ queryKey })) {
+    const items = Array.isArray(data) ? (data as T[]) : (data as Page<T> | undefined)?.content;
+    const match = items?.find((item) => item.id === id);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Swaps the placeholder `optimisticId` for the item as the backend created it. When the item is
+ * cached already (a live update got there first), the placeholder is just dropped.
+ */
+export function replaceOptimisticItem<T extends { id: string }>(
+  filters: QueryFilters,
+  optimisticId: string | undefined,
+  created: T,
+) {
+  return updateCachedLists<T>(filters, (items) =>
+    items.some((item) => item.id === created.id)
+      ? items.filter((item) => item.id !== optimisticId)
+      : items.map((item) => (item.id === optimisticId ? created : item)),
+  );
+}
@@ -0,0 +1,43 @@
+import type { ProjectRes, ProjectRole } from '../types';
+
+export interface ProjectPermissions {
+  /** Change the project's details and its tasks, tags, actions and notes. */
+  canEdit: boolean;
+  canDelete: boolean;
+  /** Copy the project's content into a new project. */
+  canImport: boolean;
+}
+
+export const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  owner: 'Owner',
+};
+
+export const VIEW_ONLY_MESSAGE = 'You have view-only access to this project.';
+
+const NO_PERMISSIONS: ProjectPermissions = { canEdit: false, canDelete: false, canImport: false };
+
+/**
+ * What the signed-in user may do in a project. The backend enforces the same rules; this only
+ * keeps the UI from offering actions that would be rejected with 403.
+ */
+export function getProjectPermissions(project: Pick<ProjectRes, 'role'> | null | undefined): ProjectPermissions {
+  if (!project) {
+    return NO_PERMISSIONS;
+  }
+
+  const role = project.role ?? 'owner';
+  switch (role) {
+    case 'viewer':
+      return NO_PERMISSIONS;
+    case 'editor':
+      return { canEdit: true, canDelete: false, canImport: true };
+    case 'owner':
+      return { canEdit: true, canDelete: true, canImport: true };
+    default: {
+      const exhaustiveCheck: never = role;
+      return exhaustiveCheck;
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import type { ProjectViewer } from '../types';
+
+export function getViewerName(viewer: ProjectViewer) {
+  return viewer.displayName ?? viewer.username;
+}
+
+// Other viewers by the task they have open in the task form
+export function groupEditorsByTask(viewers: ProjectViewer[]) {
+  const editors = new Map<string, ProjectViewer[]>();
+  viewers.forEach((viewer) => {
+    if (viewer.editingTaskId) {
+      editors.set(viewer.editingTaskId, [...(editors.get(viewer.editingTaskId) ?? []), viewer]);
+    }
+  });
+  return editors;
+}
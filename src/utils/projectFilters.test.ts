@@ -0,0 +1,60 @@
+import dayjs from 'dayjs';
+import { describe, expect, it } from 'vitest';
+import type { ProjectRes } from '../types';
+import { filterProjects, parseProjectListView, toProjectListSearchParams } from './projectFilters';
+
+function makeProject(id: string, name: string, startDate: string, description?: string): ProjectRes {
+  return {
+    id,
+    name,
+    description,
+    startDate,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  };
+}
+
+describe('dashboard project filters', () => {
+  const today = dayjs('2026-03-10');
+  const projects = [
+    makeProject('1', 'Website relaunch', '01-03-2026', 'New landing pages'),
+    makeProject('2', 'Office move', '10-03-2026'),
+    makeProject('3', 'Q2 planning', '01-04-2026', 'Budget and website roadmap'),
+  ];
+
+  it('matches every search word in the name or description', () => {
+    const ids = (query: string) =>
+      filterProjects(projects, { query, status: 'all' }, today).map(({ id }) => id);
+
+    expect(ids('WEBSITE')).toEqual(['1', '3']);
+    expect(ids('website  budget')).toEqual(['3']);
+    expect(ids('')).toEqual(['1', '2', '3']);
+  });
+
+  it('counts a project starting today as started', () => {
+    const ids = (status: 'started' | 'not-started') =>
+      filterProjects(projects, { query: '', status }, today).map(({ id }) => id);
+
+    expect(ids('started')).toEqual(['1', '2']);
+    expect(ids('not-started')).toEqual(['3']);
+  });
+
+  it('keeps only non-default values and unrelated parameters in the query string', () => {
+    const params = toProjectListSearchParams(
+      { query: 'web', sort: 'created', status: 'started' },
+      new URLSearchParams('debug=api&sort=name'),
+    );
+
+    expect(params.toString()).toBe('debug=api&q=web&status=started');
+    expect(parseProjectListView(new URLSearchParams('sort=size&status=done'))).toEqual({
+      query: '',
+      sort: 'created',
+      status: 'all',
+    });
+    expect(parseProjectListView(new URLSearchParams('sort=toString&status=constructor'))).toEqual({
+      query: '',
+      sort: 'created',
+      status: 'all',
+    });
+  });
+});
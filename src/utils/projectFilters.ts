@@ -0,0 +1,100 @@
+import dayjs, { type Dayjs } from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import type { ProjectRes } from '../types';
+
+dayjs.extend(customParseFormat);
+
+export type ProjectSort = 'name' | 'startDate' | 'created' | 'updated';
+
+export type ProjectStatusFilter = 'all' | 'started' | 'not-started';
+
+/** What the dashboard shows, as kept in its query string (`?q=…&sort=…&status=…`). */
+export interface ProjectListView {
+  query: string;
+  sort: ProjectSort;
+  status: ProjectStatusFilter;
+}
+
+// `sort` is the `listProjects` parameter: names A–Z and start dates oldest first, timestamps newest first
+export const PROJECT_SORT_OPTIONS: Record<ProjectSort, { label: string; sort: string }> = {
+  name: { label: 'Name', sort: 'name,asc' },
+  startDate: { label: 'Start date', sort: 'startDate,asc' },
+  created: { label: 'Recently created', sort: 'createdAt,desc' },
+  updated: { label: 'Recently updated', sort: 'updatedAt,desc' },
+};
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatusFilter, string> = {
+  all: 'All projects',
+  started: 'Started',
+  'not-started': 'Not started',
+};
+
+// Left out of the URL, so the plain dashboard link stays `/`
+const DEFAULT_VIEW: ProjectListView = { query: '', sort: 'created', status: 'all' };
+
+// Own keys only: `in` would also accept inherited names such as `constructor` or `toString`
+function isProjectSort(value: string | null): value is ProjectSort {
+  return value !== null && Object.keys(PROJECT_SORT_OPTIONS).includes(value);
+}
+
+function isProjectStatusFilter(value: string | null): value is ProjectStatusFilter {
+  return value !== null && Object.keys(PROJECT_STATUS_LABELS).includes(value);
+}
+
+// Unknown values (an old bookmark, a typo) fall back to the defaults
+export function parseProjectListView(searchParams: URLSearchParams): ProjectListView {
+  const sort = searchParams.get('sort');
+  const status = searchParams.get('status');
+  return {
+    query: searchParams.get('q') ?? DEFAULT_VIEW.query,
+    sort: isProjectSort(sort) ? sort : DEFAULT_VIEW.sort,
+    status: isProjectStatusFilter(status) ? status : DEFAULT_VIEW.status,
+  };
+}
+
+/** Writes `view` into a copy of `searchParams`, keeping any unrelated parameters. */
+export function toProjectListSearchParams(view: ProjectListView, searchParams: URLSearchParams) {
+  const next = new URLSearchParams(searchParams);
+  const entries: [string, string, string][] = [
+    ['q', view.query, DEFAULT_VIEW.query],
+    ['sort', view.sort, DEFAULT_VIEW.sort],
+    ['status', view.status, DEFAULT_VIEW.status],
+  ];
+  entries.forEach(([key, value, defaultValue]) => {
+    if (value === defaultValue) {
+      next.delete(key);
+    } else {
+      next.set(key, value);
+    }
+  });
+  return next;
+}
+
+export function isDefaultProjectListView({ query, status }: ProjectListView) {
+  return !query.trim() && status === DEFAULT_VIEW.status;
+}
+
+/** A project has started once its start date (`DD-MM-YYYY`) is today or earlier. */
+export function isProjectStarted(project: Pick<ProjectRes, 'startDate'>, today: Dayjs = dayjs()) {
+  const startDate = dayjs(project.startDate, 'DD-MM-YYYY', true);
+  return startDate.isValid() && !startDate.isAfter(today, 'day');
+}
+
+/**
+ * The projects matching the search and status filter, in their original order. Every word of the
+ * search has to appear in the name or the description, ignoring case.
+ */
+export function filterProjects(
+  projects: ProjectRes[],
+  { query, status }: Pick<ProjectListView, 'query' | 'status'>,
+  today: Dayjs = dayjs(),
+) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return projects.filter((project) => {
+    if (status !== 'all' && isProjectStarted(project, today) !== (status === 'started')) {
+      return false;
+    }
+    const text = `${project.name} ${project.description ?? ''}`.toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
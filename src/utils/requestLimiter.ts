@@ -0,0 +1,26 @@
+/**
+ * Runs at most `limit` of the requests passed to it at once; the others wait for a free slot, in
+ * the order they came in.
+ */
+export function createRequestLimiter(limit: number) {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  return async <T>(request: () => Promise<T>): Promise<T> => {
+    if (active < limit) {
+      active += 1;
+    } else {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    try {
+      return await request();
+    } finally {
+      // Hands the slot straight to the next request, so a new caller can't slip in between
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active -= 1;
+      }
+    }
+  };
+}
@@ -0,0 +1,213 @@
+import dayjs, { type Dayjs } from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+
+dayjs.extend(utc);
+
+export interface DayRange {
+  start: number;
+  end: number;
+}
+
+export function dayNumberToDate(projectStart: Dayjs, dayNumber: number) {
+  return projectStart.add(dayNumber - 1, 'day');
+}
+
+/**
+ * Builds the schedule part of a task/tag payload for a day range, using the same
+ * UTC-midnight convention as the task form so the backend sees identical values.
+ */
+export function buildScheduleFields(projectStart: Dayjs, range: DayRange) {
+  const startDate = dayjs.utc(dayNumberToDate(projectStart, range.start).format('YYYY-MM-DD'));
+  const endDate = dayjs.utc(dayNumberToDate(projectStart, range.end).format('YYYY-MM-DD'));
+
+  return {
+    startAt: startDate.startOf('day').toISOString(),
+    endAt: endDate.startOf('day').toISOString(),
+    start_day: range.start,
+    end_day: range.end,
+    duration: range.end - range.start + 1,
+  };
+}
+
+export function isSameRange(a: DayRange, b: DayRange) {
+  return a.start === b.start && a.end === b.end;
+}
+
+export type TimelineZoom = 'day' | 'week' | 'month' | 'quarter';
+
+export const TIMELINE_ZOOM_LEVELS: { value: TimelineZoom; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+];
+
+export function isTimelineZoom(value: unknown): value is TimelineZoom {
+  return TIMELINE_ZOOM_LEVELS.some((level) => level.value === value);
+}
+
+export interface TimelineColumn {
+  key: string;
+  startDay: number;
+  endDay: number;
+  label: string;
+}
+
+// Bucket sizes used when the project start date is unknown and calendar months can't be derived.
+const FALLBACK_BUCKET_DAYS: Record<TimelineZoom, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  quarter: 91,
+};
+
+/**
+ * Groups the day numbers `1..totalDays` into grid columns for the given zoom level.
+ * Month and quarter columns follow calendar boundaries when the project start is known.
+ */
+export function buildTimelineColumns(
+  zoom: TimelineZoom,
+  totalDays: number,
+  projectStart: Dayjs | null,
+): TimelineColumn[] {
+  const columns: TimelineColumn[] = [];
+  let startDay = 1;
+
+  while (startDay <= totalDays) {
+    const endDay = resolveColumnEnd(zoom, startDay, projectStart);
+    columns.push({
+      key: `${zoom}-${startDay}`,
+      startDay,
+      endDay,
+      label: formatColumnLabel(zoom, startDay, columns.length + 1, projectStart),
+    });
+    startDay = endDay + 1;
+  }
+
+  return columns;
+}
+
+function resolveColumnEnd(zoom: TimelineZoom, startDay: number, projectStart: Dayjs | null) {
+  if (!projectStart || zoom === 'day' || zoom === 'week') {
+    return startDay + FALLBACK_BUCKET_DAYS[zoom] - 1;
+  }
+
+  const date = dayNumberToDate(projectStart, startDay);
+  const periodEnd =
+    zoom === 'month'
+      ? date.endOf('month')
+      : date.startOf('month').month(Math.floor(date.month() / 3) * 3 + 2).endOf('month');
+
+  return startDay + periodEnd.startOf('day').diff(date, 'day');
+}
+
+function formatColumnLabel(
+  zoom: TimelineZoom,
+  startDay: number,
+  position: number,
+  projectStart: Dayjs | null,
+) {
+  switch (zoom) {
+    case 'day':
+      return String(startDay);
+    case 'week':
+      return `W${position}`;
+    case 'month':
+      return projectStart ? dayNumberToDate(projectStart, startDay).format('MMM YYYY') : `M${position}`;
+    case 'quarter': {
+      if (!projectStart) {
+        return `Q${position}`;
+      }
+      const date = dayNumberToDate(projectStart, startDay);
+      return `Q${Math.floor(date.month() / 3) + 1} ${date.format('YYYY')}`;
+    }
+    default: {
+      const exhaustiveCheck: never = zoom;
+      return exhaustiveCheck;
+    }
+  }
+}
+
+export function getColumnSpan(column: TimelineColumn) {
+  return column.endDay - column.startDay + 1;
+}
+
+export function rangeOverlapsColumn(range: DayRange, column: TimelineColumn) {
+  return range.start <= column.endDay && column.startDay <= range.end;
+}
+
+/**
+ * Maps a pointer position inside a (possibly multi-day) column back to a day number,
+ * clamped to the part of the column the bar actually covers.
+ */
+export function resolveDayInColumn(
+  column: TimelineColumn,
+  range: DayRange,
+  clientX: number,
+  cellRect: { left: number; width: number },
+) {
+  const span = getColumnSpan(column);
+  const fraction = cellRect.width > 0 ? (clientX - cellRect.left) / cellRect.width : 0;
+  const offset = Math.min(span - 1, Math.max(0, Math.floor(fraction * span)));
+  const day = column.startDay + offset;
+  const minDay = Math.max(column.startDay, range.start);
+  const maxDay = Math.min(column.endDay, range.end);
+  return Math.min(maxDay, Math.max(minDay, day));
+}
+
+export function dateToDayNumber(projectStart: Dayjs, date: Dayjs) {
+  return date.startOf('day').diff(projectStart, 'day') + 1;
+}
+
+export function columnContainsDay(column: TimelineColumn, dayNumber: number) {
+  return column.startDay <= dayNumber && dayNumber <= column.endDay;
+}
+
+export interface TimelineHeaderGroup {
+  key: string;
+  label: string;
+  span: number;
+}
+
+/**
+ * Upper header tier: months above day/week columns and years above month/quarter columns.
+ */
+export function buildHeaderGroups(
+  columns: TimelineColumn[],
+  zoom: TimelineZoom,
+  projectStart: Dayjs,
+): TimelineHeaderGroup[] {
+  const groupFormat = zoom === 'day' || zoom === 'week' ? 'MMMM YYYY' : 'YYYY';
+  const groups: TimelineHeaderGroup[] = [];
+
+  columns.forEach((column) => {
+    const label = dayNumberToDate(projectStart, column.startDay).format(groupFormat);
+    const current = groups[groups.length - 1];
+    if (current && current.label === label) {
+      current.span += 1;
+      return;
+    }
+    groups.push({ key: `${label}-${column.key}`, label, span: 1 });
+  });
+
+  return groups;
+}
+
+/**
+ * Clips header groups to the columns `[start, end)` that are currently rendered.
+ */
+export function sliceHeaderGroups(groups: TimelineHeaderGroup[], start: number, end: number) {
+  const sliced: TimelineHeaderGroup[] = [];
+  let groupStart = 0;
+
+  groups.forEach((group) => {
+    const groupEnd = groupStart + group.span;
+    const span = Math.min(groupEnd, end) - Math.max(groupStart, start);
+    if (span > 0) {
+      sliced.push({ ...group, span });
+    }
+    groupStart = groupEnd;
+  });
+
+  return sliced;
+}